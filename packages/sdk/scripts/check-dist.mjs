@@ -0,0 +1,12 @@
+// Imports every built entry point listed in `exports`, so a bundle that references
+// names it doesn't define fails the build instead of failing for users.
+import { readFile } from "node:fs/promises";
+
+const { exports } = JSON.parse(await readFile(new URL("../package.json", import.meta.url), "utf8"));
+
+for (const [entry, { import: path }] of Object.entries(exports)) {
+  const module = await import(new URL(`../${path}`, import.meta.url).href);
+  if (Object.keys(module).length === 0) {
+    throw new Error(`${entry} (${path}) has no exports`);
+  }
+}
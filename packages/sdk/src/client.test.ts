@@ -0,0 +1,590 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+
+import { MynthAPIError, MynthClient, MynthNetworkError, MynthTimeoutError } from "./client";
+import { SDK_VERSION } from "./constants";
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const FAST_RETRY = { initialDelayMs: 1, jitterMs: 0 };
+
+/**
+ * A fetch that never responds, rejecting like fetch does once its signal aborts.
+ */
+function hangingFetch(_url: string, init: RequestInit): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    init.signal?.addEventListener("abort", () => reject(init.signal?.reason), { once: true });
+  });
+}
+
+function stubFetch(...responses: (Response | Error)[]): ReturnType<typeof vi.fn> {
+  const fetchMock = vi.fn();
+  for (const response of responses) {
+    if (response instanceof Error) fetchMock.mockRejectedValueOnce(response);
+    else fetchMock.mockResolvedValueOnce(response);
+  }
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+// ============================================================================
+// Retry Policy
+// ============================================================================
+
+describe("MynthClient retry policy", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  test("retries retryable statuses on POST and returns the successful response", async () => {
+    // Arrange
+    const fetchMock = stubFetch(
+      Response.json({ error: "Too many requests" }, { status: 429 }),
+      Response.json({ error: "Service unavailable" }, { status: 503 }),
+      Response.json({ taskId: "task-123" }),
+    );
+    const client = new MynthClient({ apiKey: "mak_test", retry: FAST_RETRY });
+
+    // Act
+    const result = await client.post<{ taskId: string }>("/image/generate", { prompt: "A cat" });
+
+    // Assert
+    expect(result.taskId).toBe("task-123");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  test("throws MynthAPIError with the retry count once retries are exhausted", async () => {
+    // Arrange
+    stubFetch(
+      Response.json({ error: "Service unavailable" }, { status: 503 }),
+      Response.json({ error: "Service unavailable" }, { status: 503 }),
+      Response.json({ error: "Service unavailable" }, { status: 503 }),
+    );
+    const client = new MynthClient({ apiKey: "mak_test", retry: FAST_RETRY });
+
+    // Act & Assert
+    await expect(client.post("/image/generate", {})).rejects.toMatchObject({
+      name: "MynthAPIError",
+      status: 503,
+      retries: 2,
+    });
+  });
+
+  test("doesn't retry statuses outside the retryable set", async () => {
+    // Arrange
+    const fetchMock = stubFetch(Response.json({ error: "Invalid prompt" }, { status: 400 }));
+    const client = new MynthClient({ apiKey: "mak_test", retry: FAST_RETRY });
+
+    // Act & Assert
+    await expect(client.post("/image/generate", {})).rejects.toMatchObject({
+      status: 400,
+      retries: 0,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test("uses the configured retryable statuses and retry budget", async () => {
+    // Arrange
+    const fetchMock = stubFetch(
+      Response.json({ error: "Conflict" }, { status: 409 }),
+      Response.json({ error: "Conflict" }, { status: 409 }),
+    );
+    const client = new MynthClient({
+      apiKey: "mak_test",
+      retry: { ...FAST_RETRY, maxRetries: 1, retryableStatuses: [409] },
+    });
+
+    // Act & Assert
+    await expect(client.post("/image/generate", {})).rejects.toThrow(MynthAPIError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test("waits for the Retry-After delay before retrying", async () => {
+    // Arrange
+    vi.useFakeTimers();
+    const fetchMock = stubFetch(
+      Response.json({}, { status: 429, headers: { "Retry-After": "2" } }),
+      Response.json({ taskId: "task-123" }),
+    );
+    const client = new MynthClient({ apiKey: "mak_test" });
+
+    // Act
+    const resultPromise = client.post("/image/generate", {});
+    await vi.advanceTimersByTimeAsync(1_900);
+    const callsBeforeRetryAfter = fetchMock.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(100);
+    await resultPromise;
+
+    // Assert
+    expect(callsBeforeRetryAfter).toBe(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test("stops retrying when Retry-After exceeds the maximum delay", async () => {
+    // Arrange
+    const fetchMock = stubFetch(
+      Response.json({}, { status: 503, headers: { "Retry-After": "120" } }),
+    );
+    const client = new MynthClient({ apiKey: "mak_test" });
+
+    // Act & Assert
+    await expect(client.post("/image/generate", {})).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test("retries network errors on GET", async () => {
+    // Arrange
+    const fetchMock = stubFetch(
+      new TypeError("fetch failed"),
+      Response.json({ status: "pending" }),
+    );
+    const client = new MynthClient({ apiKey: "mak_test", retry: FAST_RETRY });
+
+    // Act
+    const response = await client.get<{ status: string }>("/tasks/task-123/status");
+
+    // Assert
+    expect(response).toMatchObject({
+      data: { status: "pending" },
+      status: 200,
+      ok: true,
+      retries: 1,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test("retries network errors on POST, sending the same idempotency key", async () => {
+    // Arrange
+    const fetchMock = stubFetch(new TypeError("fetch failed"), Response.json({ taskId: "task-1" }));
+    const client = new MynthClient({ apiKey: "mak_test", retry: FAST_RETRY });
+
+    // Act
+    const result = await client.post<{ taskId: string }>("/image/generate", {});
+
+    // Assert
+    const keys = fetchMock.mock.calls.map(([, init]) => init.headers["Idempotency-Key"]);
+    expect(result.taskId).toBe("task-1");
+    expect(keys).toHaveLength(2);
+    expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(keys[1]).toBe(keys[0]);
+  });
+
+  test("sends the given idempotency key", async () => {
+    // Arrange
+    const fetchMock = stubFetch(Response.json({ taskId: "task-1" }));
+    const client = new MynthClient({ apiKey: "mak_test" });
+
+    // Act
+    await client.post("/image/generate", {}, { idempotencyKey: "order-42" });
+
+    // Assert
+    expect(fetchMock.mock.calls[0]?.[1].headers).toMatchObject({ "Idempotency-Key": "order-42" });
+  });
+
+  test("doesn't retry POST network errors without an idempotency key", async () => {
+    // Arrange
+    const networkError = new TypeError("fetch failed");
+    const fetchMock = stubFetch(networkError, Response.json({ taskId: "task-1" }));
+    const client = new MynthClient({ apiKey: "mak_test", retry: { maxRetries: 0 } });
+
+    // Act
+    const error = await client.post("/image/generate", {}).catch((e: unknown) => e);
+
+    // Assert
+    expect(error).toBeInstanceOf(MynthNetworkError);
+    expect(error).toMatchObject({ cause: networkError, retries: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0]?.[1].headers).not.toHaveProperty("Idempotency-Key");
+  });
+
+  test("rethrows aborts without retrying", async () => {
+    // Arrange
+    const controller = new AbortController();
+    controller.abort();
+    const abortError = new DOMException("Aborted", "AbortError");
+    const fetchMock = stubFetch(abortError);
+    const client = new MynthClient({ apiKey: "mak_test", retry: FAST_RETRY });
+
+    // Act & Assert
+    await expect(client.get("/tasks/task-123", { signal: controller.signal })).rejects.toBe(
+      abortError,
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ============================================================================
+// Timeouts
+// ============================================================================
+
+describe("MynthClient timeouts", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  test("throws MynthTimeoutError when a request exceeds the client timeout", async () => {
+    // Arrange
+    const fetchMock = vi.fn(hangingFetch);
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new MynthClient({ apiKey: "mak_test", timeoutMs: 10, retry: { maxRetries: 0 } });
+
+    // Act & Assert
+    await expect(client.get("/tasks/task-123")).rejects.toMatchObject({
+      name: "MynthTimeoutError",
+      timeoutMs: 10,
+      retries: 0,
+    });
+  });
+
+  test("retries timed out GET requests before giving up", async () => {
+    // Arrange
+    const fetchMock = vi.fn(hangingFetch);
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new MynthClient({ apiKey: "mak_test", timeoutMs: 10, retry: FAST_RETRY });
+
+    // Act
+    const error = await client.get("/tasks/task-123").catch((e: unknown) => e);
+
+    // Assert
+    expect(error).toBeInstanceOf(MynthTimeoutError);
+    expect(error).toMatchObject({ retries: 2 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  test("uses the per-request timeout over the client timeout", async () => {
+    // Arrange
+    vi.stubGlobal("fetch", vi.fn(hangingFetch));
+    const client = new MynthClient({ apiKey: "mak_test", retry: { maxRetries: 0 } });
+
+    // Act & Assert
+    await expect(client.post("/image/generate", {}, { timeoutMs: 10 })).rejects.toBeInstanceOf(
+      MynthTimeoutError,
+    );
+  });
+
+  test("rethrows the caller's abort instead of a timeout error", async () => {
+    // Arrange
+    vi.stubGlobal("fetch", vi.fn(hangingFetch));
+    const client = new MynthClient({ apiKey: "mak_test", timeoutMs: 1_000 });
+    const controller = new AbortController();
+    const reason = new Error("Cancelled by user");
+
+    // Act
+    const request = client.get("/tasks/task-123", { signal: controller.signal });
+    controller.abort(reason);
+
+    // Assert
+    await expect(request).rejects.toBe(reason);
+  });
+
+  test("combines the caller's signal with the timeout without AbortSignal.any", async () => {
+    // Arrange
+    vi.spyOn(AbortSignal, "any").mockImplementation(() => {
+      throw new TypeError("AbortSignal.any is not a function");
+    });
+    vi.stubGlobal("fetch", vi.fn(hangingFetch));
+    const client = new MynthClient({ apiKey: "mak_test", timeoutMs: 10, retry: { maxRetries: 0 } });
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, "removeEventListener");
+
+    // Act
+    const request = client.get("/tasks/task-123", { signal: controller.signal });
+
+    // Assert
+    await expect(request).rejects.toBeInstanceOf(MynthTimeoutError);
+    expect(removeListener).toHaveBeenCalledWith("abort", expect.any(Function));
+  });
+});
+
+// ============================================================================
+// Response Parsing
+// ============================================================================
+
+describe("MynthClient response parsing", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("throws MynthAPIError with the raw text for non-JSON error pages", async () => {
+    // Arrange
+    const html = "<html><body>502 Bad Gateway</body></html>";
+    stubFetch(
+      new Response(html, {
+        status: 502,
+        headers: { "Content-Type": "text/html", "X-Request-Id": "req_123" },
+      }),
+    );
+    const client = new MynthClient({ apiKey: "mak_test", retry: { maxRetries: 0 } });
+
+    // Act
+    const error = await client.post("/image/generate", {}).catch((e: unknown) => e);
+
+    // Assert
+    expect(error).toBeInstanceOf(MynthAPIError);
+    expect(error).toMatchObject({
+      message: "Request failed with status 502",
+      status: 502,
+      body: html,
+      requestId: "req_123",
+      url: "https://api.mynth.io/image/generate",
+      method: "POST",
+    });
+  });
+
+  test("attaches the parsed JSON body to MynthAPIError", async () => {
+    // Arrange
+    const body = { error: "Invalid prompt", code: "invalid_prompt", field: "prompt" };
+    stubFetch(Response.json(body, { status: 400 }));
+    const client = new MynthClient({ apiKey: "mak_test" });
+
+    // Act & Assert
+    await expect(client.post("/image/generate", {})).rejects.toMatchObject({
+      message: "Invalid prompt",
+      code: "invalid_prompt",
+      body,
+    });
+  });
+
+  test("returns the raw text of non-JSON error responses from GET", async () => {
+    // Arrange
+    stubFetch(new Response("Not Found", { status: 404 }));
+    const client = new MynthClient({ apiKey: "mak_test" });
+
+    // Act
+    const response = await client.get("/tasks/missing");
+
+    // Assert
+    expect(response).toMatchObject({ ok: false, status: 404, data: "Not Found" });
+  });
+
+  test("throws MynthAPIError for successful responses that aren't JSON", async () => {
+    // Arrange
+    stubFetch(new Response("OK", { status: 200 }));
+    const client = new MynthClient({ apiKey: "mak_test" });
+
+    // Act & Assert
+    await expect(client.get("/tasks/task-123")).rejects.toMatchObject({
+      name: "MynthAPIError",
+      status: 200,
+      body: "OK",
+      method: "GET",
+    });
+  });
+});
+
+// ============================================================================
+// Custom fetch and Interceptors
+// ============================================================================
+
+describe("MynthClient fetch and interceptors", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("uses the provided fetch instead of the global one", async () => {
+    // Arrange
+    const globalFetch = stubFetch();
+    const customFetch = vi.fn().mockResolvedValue(Response.json({ status: "pending" }));
+    const client = new MynthClient({ apiKey: "mak_test", fetch: customFetch });
+
+    // Act
+    await client.get("/tasks/task-123/status");
+
+    // Assert
+    expect(customFetch).toHaveBeenCalledWith(
+      "https://api.mynth.io/tasks/task-123/status",
+      expect.objectContaining({ method: "GET" }),
+    );
+    expect(globalFetch).not.toHaveBeenCalled();
+  });
+
+  test("sends the request returned by onRequest interceptors, in order", async () => {
+    // Arrange
+    const customFetch = vi.fn().mockResolvedValue(Response.json({ taskId: "task-1" }));
+    const client = new MynthClient({
+      apiKey: "mak_test",
+      fetch: customFetch,
+      interceptors: [
+        {
+          onRequest: (request) => ({
+            ...request,
+            headers: { ...request.headers, traceparent: "00-abc" },
+          }),
+        },
+        {
+          onRequest: (request) => {
+            expect(request.headers.traceparent).toBe("00-abc");
+          },
+        },
+      ],
+    });
+
+    // Act
+    await client.post("/image/generate", { prompt: "A cat" });
+
+    // Assert
+    expect(customFetch.mock.calls[0]?.[1].headers).toMatchObject({
+      Authorization: "Bearer mak_test",
+      traceparent: "00-abc",
+    });
+  });
+
+  test("calls onResponse for every attempt with the duration", async () => {
+    // Arrange
+    const customFetch = vi
+      .fn()
+      .mockResolvedValueOnce(Response.json({}, { status: 503 }))
+      .mockResolvedValueOnce(Response.json({ status: "pending" }));
+    const onResponse = vi.fn();
+    const client = new MynthClient({
+      apiKey: "mak_test",
+      fetch: customFetch,
+      retry: FAST_RETRY,
+      interceptors: [{ onResponse }],
+    });
+
+    // Act
+    await client.get("/tasks/task-123/status");
+
+    // Assert
+    expect(onResponse).toHaveBeenCalledTimes(2);
+    expect(
+      onResponse.mock.calls.map(([response, context]) => [
+        response.status,
+        context.request.attempt,
+      ]),
+    ).toEqual([
+      [503, 1],
+      [200, 2],
+    ]);
+    expect(onResponse.mock.calls[0]?.[1].durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test("calls onError when an attempt fails without a response", async () => {
+    // Arrange
+    const networkError = new TypeError("fetch failed");
+    const customFetch = vi.fn().mockRejectedValue(networkError);
+    const onError = vi.fn();
+    const client = new MynthClient({
+      apiKey: "mak_test",
+      fetch: customFetch,
+      retry: { maxRetries: 0 },
+      interceptors: [{ onError }],
+    });
+
+    // Act
+    await client.get("/tasks/task-123").catch(() => {});
+
+    // Assert
+    expect(onError).toHaveBeenCalledWith(
+      networkError,
+      expect.objectContaining({ request: expect.objectContaining({ method: "GET", attempt: 1 }) }),
+    );
+  });
+
+  test("fails the request with errors thrown by interceptors, without retrying", async () => {
+    // Arrange
+    const customFetch = vi.fn();
+    const interceptorError = new Error("Tracing unavailable");
+    const client = new MynthClient({
+      apiKey: "mak_test",
+      fetch: customFetch,
+      retry: FAST_RETRY,
+      interceptors: [
+        {
+          onRequest: () => {
+            throw interceptorError;
+          },
+        },
+      ],
+    });
+
+    // Act & Assert
+    await expect(client.get("/tasks/task-123")).rejects.toBe(interceptorError);
+    expect(customFetch).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// Headers and Per-call Options
+// ============================================================================
+
+describe("MynthClient headers", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("sends the SDK's User-Agent and version headers", async () => {
+    // Arrange
+    const fetchMock = stubFetch(Response.json({ status: "pending" }));
+    const client = new MynthClient({ apiKey: "mak_test" });
+
+    // Act
+    await client.get("/tasks/task-123/status");
+
+    // Assert
+    expect(fetchMock.mock.calls[0]?.[1].headers).toMatchObject({
+      "User-Agent": `mynth-sdk-js/${SDK_VERSION}`,
+      "X-Mynth-SDK-Version": SDK_VERSION,
+    });
+  });
+
+  test("omits the SDK's headers with sdkHeaders: false", async () => {
+    // Arrange
+    const fetchMock = stubFetch(Response.json({ status: "pending" }));
+    const client = new MynthClient({ sdkHeaders: false });
+
+    // Act
+    await client.get("/tasks/task-123/status", { accessToken: "pat_public" });
+
+    // Assert
+    expect(fetchMock.mock.calls[0]?.[1].headers).toEqual({ Authorization: "Bearer pat_public" });
+  });
+
+  test("merges default headers over the SDK's, ignoring header name casing", async () => {
+    // Arrange
+    const fetchMock = stubFetch(Response.json({ taskId: "task-1" }));
+    const client = new MynthClient({
+      apiKey: "mak_test",
+      defaultHeaders: { "user-agent": "my-app/1.2.3", "X-Tenant-Id": "tenant-1" },
+    });
+
+    // Act
+    await client.post("/image/generate", { prompt: "A cat" });
+
+    // Assert
+    const headers = fetchMock.mock.calls[0]?.[1].headers;
+    expect(headers).toMatchObject({ "user-agent": "my-app/1.2.3", "X-Tenant-Id": "tenant-1" });
+    expect(headers).not.toHaveProperty("User-Agent");
+  });
+
+  test("applies per-call headers and API key over the client's", async () => {
+    // Arrange
+    const fetchMock = stubFetch(Response.json({ taskId: "task-1" }), Response.json({}));
+    const client = new MynthClient({
+      apiKey: "mak_client",
+      defaultHeaders: { "X-Tenant-Id": "tenant-1" },
+    });
+
+    // Act
+    await client.post(
+      "/image/generate",
+      { prompt: "A cat" },
+      { apiKey: "mak_customer", headers: { "X-Tenant-Id": "tenant-2" } },
+    );
+    await client.get("/tasks/task-1", { apiKey: "mak_customer", accessToken: "pat_task" });
+
+    // Assert
+    expect(fetchMock.mock.calls[0]?.[1].headers).toMatchObject({
+      Authorization: "Bearer mak_customer",
+      "X-Tenant-Id": "tenant-2",
+    });
+    expect(fetchMock.mock.calls[1]?.[1].headers).toMatchObject({
+      Authorization: "Bearer pat_task",
+      "X-Tenant-Id": "tenant-1",
+    });
+  });
+});
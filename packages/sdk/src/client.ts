@@ -1,4 +1,25 @@
-import { API_URL } from "./constants";
+import {
+  API_URL,
+  IDEMPOTENCY_KEY_HEADER,
+  REQUEST_ID_HEADER,
+  SDK_USER_AGENT,
+  SDK_VERSION,
+  SDK_VERSION_HEADER,
+} from "./constants";
+
+/**
+ * Request and response details attached to a MynthAPIError, for debugging.
+ */
+export type MynthAPIErrorDetails = {
+  /** Response body: parsed JSON, or the raw text if it isn't JSON */
+  body?: unknown;
+  /** Value of the X-Request-Id response header, for support requests */
+  requestId?: string;
+  /** Request URL */
+  url?: string;
+  /** Request method */
+  method?: string;
+};
 
 /**
  * Error thrown when an API request fails.
@@ -8,87 +29,607 @@ export class MynthAPIError extends Error {
   public readonly status: number;
   /** Error code from the API response, if available */
   public readonly code?: string;
+  /** Number of times the request was retried before failing */
+  public readonly retries: number;
+  /** Response body: parsed JSON, or the raw text if it isn't JSON */
+  public readonly body?: unknown;
+  /** Value of the X-Request-Id response header, for support requests */
+  public readonly requestId?: string;
+  /** Request URL */
+  public readonly url?: string;
+  /** Request method */
+  public readonly method?: string;
 
-  constructor(message: string, status: number, code?: string) {
+  constructor(
+    message: string,
+    status: number,
+    code?: string,
+    retries = 0,
+    details: MynthAPIErrorDetails = {},
+  ) {
     super(message);
     this.name = "MynthAPIError";
     this.status = status;
     this.code = code;
+    this.retries = retries;
+    this.body = details.body;
+    this.requestId = details.requestId;
+    this.url = details.url;
+    this.method = details.method;
   }
 }
 
+/**
+ * Error thrown when an API request fails without a response, e.g. on a connection failure.
+ * The underlying error is available as `cause`.
+ */
+export class MynthNetworkError extends Error {
+  /** Number of times the request was retried before failing */
+  public readonly retries: number;
+
+  constructor(url: string, cause: unknown, retries = 0) {
+    super(`Request to ${url} failed`);
+    this.name = "MynthNetworkError";
+    this.cause = cause;
+    this.retries = retries;
+  }
+}
+
+/**
+ * Error thrown when an API request doesn't complete within its timeout.
+ */
+export class MynthTimeoutError extends Error {
+  /** Timeout of each attempt, in milliseconds */
+  public readonly timeoutMs: number;
+  /** Number of times the request was retried before failing */
+  public readonly retries: number;
+
+  constructor(url: string, timeoutMs: number, retries = 0) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+    this.name = "MynthTimeoutError";
+    this.timeoutMs = timeoutMs;
+    this.retries = retries;
+  }
+}
+
+/** Default timeout of each request attempt, in milliseconds */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 60_000;
+
+/**
+ * Controls how failed API requests are retried. Omitted fields use the defaults
+ * from `DEFAULT_RETRY_POLICY`.
+ */
+export type RetryPolicy = {
+  /** Maximum number of retries after the first attempt. `0` disables retries. */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled for every further retry */
+  initialDelayMs?: number;
+  /**
+   * Upper bound for the backoff delay. A `Retry-After` header asking for a longer
+   * delay ends retrying instead.
+   */
+  maxDelayMs?: number;
+  /** Upper bound of random delay added to each backoff delay */
+  jitterMs?: number;
+  /** Response statuses that are retried */
+  retryableStatuses?: readonly number[];
+};
+
+/**
+ * Default retry policy: up to 2 retries, starting at 500ms and doubling up to 8 seconds,
+ * with up to 250ms of jitter, for 408, 429 and 5xx gateway statuses.
+ */
+export const DEFAULT_RETRY_POLICY = {
+  maxRetries: 2,
+  initialDelayMs: 500,
+  maxDelayMs: 8_000,
+  jitterMs: 250,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+} as const satisfies Required<RetryPolicy>;
+
+/**
+ * Per-call options, overriding the client's settings for a single call.
+ */
+export type MynthRequestOptions = {
+  /** Extra headers, merged over the client's `defaultHeaders` */
+  headers?: Record<string, string>;
+  /** API key for this call, e.g. a customer's own key in a multi-tenant app */
+  apiKey?: string;
+  /** Timeout of each attempt, in milliseconds. Overrides the client's timeout; `0` disables it. */
+  timeoutMs?: number;
+  /** Cancels the call */
+  signal?: AbortSignal;
+};
+
+/**
+ * A `fetch`-compatible function used for all API requests.
+ */
+export type MynthFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * An API request attempt, as seen by interceptors.
+ */
+export type MynthRequest = {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  /** Attempt number, starting at 1 and increasing with every retry */
+  attempt: number;
+};
+
+/**
+ * Context passed to `onResponse` and `onError` interceptors.
+ */
+export type MynthResponseContext = {
+  /** The request as sent, after `onRequest` interceptors */
+  request: MynthRequest;
+  /** Time from sending the request to the response or error, in milliseconds */
+  durationMs: number;
+};
+
+/**
+ * Hooks into every API request attempt, including retries. Interceptors run in order,
+ * and errors they throw fail the request.
+ */
+export type MynthInterceptor = {
+  /** Called before each attempt. Return a request to replace it, e.g. with extra headers. */
+  onRequest?: (request: MynthRequest) => MynthRequest | void | Promise<MynthRequest | void>;
+  /** Called with each response. Clone it before reading the body. */
+  onResponse?: (response: Response, context: MynthResponseContext) => void | Promise<void>;
+  /** Called when an attempt fails without a response, e.g. on a network error or timeout */
+  onError?: (error: unknown, context: MynthResponseContext) => void | Promise<void>;
+};
+
 type APIErrorResponse = {
   error?: string;
   message?: string;
   code?: string;
 };
 
+/**
+ * Creates a MynthAPIError from a failed response.
+ * @internal
+ */
+function createAPIError(response: MynthClientResponse<unknown>, message?: string): MynthAPIError {
+  const errorResponse = (
+    typeof response.data === "object" && response.data !== null ? response.data : {}
+  ) as APIErrorResponse;
+
+  return new MynthAPIError(
+    message ||
+      errorResponse.error ||
+      errorResponse.message ||
+      `Request failed with status ${response.status}`,
+    response.status,
+    errorResponse.code,
+    response.retries,
+    {
+      body: response.data,
+      requestId: response.requestId,
+      url: response.url,
+      method: response.method,
+    },
+  );
+}
+
+/**
+ * Reads a response body, parsing it as JSON when possible and falling back to text.
+ */
+async function readBody(response: Response): Promise<{ body: unknown; isJson: boolean }> {
+  const text = await response.text();
+
+  try {
+    return { body: JSON.parse(text), isJson: true };
+  } catch {
+    return { body: text || undefined, isJson: false };
+  }
+}
+
+/**
+ * Parses a `Retry-After` header, given in seconds or as an HTTP date, into milliseconds.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Merges header objects, later ones winning. Names are compared case-insensitively, keeping
+ * the casing of the winning header.
+ */
+function mergeHeaders(...sources: (Record<string, string> | undefined)[]): Record<string, string> {
+  const merged: Record<string, string> = {};
+
+  for (const source of sources) {
+    for (const [name, value] of Object.entries(source ?? {})) {
+      const existing = Object.keys(merged).find((key) => key.toLowerCase() === name.toLowerCase());
+      if (existing !== undefined) delete merged[existing];
+      merged[name] = value;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Combines signals into one that aborts with the reason of the first to abort, like
+ * `AbortSignal.any`, which needs Node 20.3. Call `dispose` when done, so long-lived
+ * signals don't keep a listener per request.
+ */
+function combineSignals(...signals: AbortSignal[]): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onAbort = () => {
+    dispose();
+    controller.abort(signals.find((signal) => signal.aborted)?.reason);
+  };
+  const dispose = () => {
+    for (const signal of signals) signal.removeEventListener("abort", onAbort);
+  };
+
+  if (signals.some((signal) => signal.aborted)) {
+    onAbort();
+  } else {
+    for (const signal of signals) signal.addEventListener("abort", onAbort, { once: true });
+  }
+
+  return { signal: controller.signal, dispose };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Response of an API request.
+ * @internal
+ */
+type MynthClientResponse<DataType> = {
+  data: DataType;
+  status: number;
+  ok: boolean;
+  /** Number of times the request was retried */
+  retries: number;
+  /** Value of the X-Request-Id response header */
+  requestId?: string;
+  /** Delay requested by the Retry-After response header, in milliseconds */
+  retryAfterMs?: number;
+  url: string;
+  method: string;
+};
+
+/**
+ * Per-request options.
+ * @internal
+ */
+type MynthClientRequestOptions = MynthRequestOptions;
+
+/**
+ * Result of a single request attempt.
+ */
+type MynthClientAttemptResult<DataType> =
+  | { type: "response"; response: MynthClientResponse<DataType> }
+  | { type: "retry"; delayMs: number }
+  | { type: "failed"; error: unknown; timedOut: boolean };
+
+/**
+ * Options for creating a MynthClient.
+ * @internal
+ */
+type MynthClientOptions = {
+  /** API key. Omit for public clients that only use public access tokens. */
+  apiKey?: string;
+  /** Custom API base URL */
+  baseUrl?: string;
+  /** Retry policy for all requests */
+  retry?: RetryPolicy;
+  /** Timeout of each request attempt; `0` disables it */
+  timeoutMs?: number;
+  /** Headers sent with every request, overriding the SDK's User-Agent and version headers */
+  defaultHeaders?: Record<string, string>;
+  /**
+   * Sends the SDK's User-Agent and version headers. Public clients turn this off, since
+   * browsers forbid setting `User-Agent` and custom headers need a CORS preflight.
+   * Defaults to true.
+   */
+  sdkHeaders?: boolean;
+  /** `fetch` implementation. Defaults to the global `fetch`. */
+  fetch?: MynthFetch;
+  /** Interceptors for every request attempt */
+  interceptors?: readonly MynthInterceptor[];
+};
+
 /**
  * Internal HTTP client for making API requests.
  * @internal
  */
 class MynthClient {
-  private readonly apiKey: string;
+  private readonly apiKey: string | undefined;
   private readonly baseUrl: string;
+  private readonly retry: Required<RetryPolicy>;
+  private readonly timeoutMs: number;
+  private readonly defaultHeaders: Record<string, string>;
+  private readonly fetch: MynthFetch;
+  private readonly interceptors: readonly MynthInterceptor[];
 
-  constructor(options: { apiKey: string; baseUrl?: string }) {
+  constructor(options: MynthClientOptions) {
     this.apiKey = options.apiKey;
     this.baseUrl = options.baseUrl
       ? options.baseUrl.endsWith("/")
         ? options.baseUrl.slice(0, -1)
         : options.baseUrl
       : API_URL;
+    const retry = options.retry ?? {};
+    this.retry = {
+      maxRetries: retry.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries,
+      initialDelayMs: retry.initialDelayMs ?? DEFAULT_RETRY_POLICY.initialDelayMs,
+      maxDelayMs: retry.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+      jitterMs: retry.jitterMs ?? DEFAULT_RETRY_POLICY.jitterMs,
+      retryableStatuses: retry.retryableStatuses ?? DEFAULT_RETRY_POLICY.retryableStatuses,
+    };
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.defaultHeaders = mergeHeaders(
+      options.sdkHeaders === false
+        ? {}
+        : { "User-Agent": SDK_USER_AGENT, [SDK_VERSION_HEADER]: SDK_VERSION },
+      options.defaultHeaders,
+    );
+    // Resolved on every call, so the global can be replaced after the client is created
+    this.fetch = options.fetch ?? ((url, init) => fetch(url, init));
+    this.interceptors = options.interceptors ?? [];
   }
 
-  getAuthHeaders(override?: { accessToken?: string }) {
-    return {
-      Authorization: `Bearer ${override?.accessToken ?? this.apiKey}`,
-    };
+  getAuthHeaders(override?: { accessToken?: string; apiKey?: string }): Record<string, string> {
+    const token = override?.accessToken ?? override?.apiKey ?? this.apiKey;
+    return token ? { Authorization: `Bearer ${token}` } : {};
   }
 
   getUrl(path: string) {
     return `${this.baseUrl}${path}`;
   }
 
-  public async post<DataType>(path: string, data: unknown): Promise<DataType> {
-    const response = await fetch(this.getUrl(path), {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...this.getAuthHeaders(),
-      },
-      body: JSON.stringify(data),
-    });
+  /**
+   * Whether the retry policy retries responses with this status, for callers with their own
+   * retries.
+   */
+  isRetryableStatus(status: number): boolean {
+    return this.retry.retryableStatuses.includes(status);
+  }
 
-    const json = await response.json();
+  /**
+   * Sends a POST request, throwing on non-2xx statuses.
+   *
+   * @param options - Per-call options; `headers` are merged over the client's default headers
+   * @param options.idempotencyKey - Sent as the Idempotency-Key header. Generated when
+   * retries are enabled, so every retry of this call is recognized as the same request.
+   * @throws {MynthAPIError} If the response isn't a 2xx JSON response
+   * @throws {MynthNetworkError} If the request fails without a response
+   * @throws {MynthTimeoutError} If the request times out
+   */
+  public async post<DataType>(
+    path: string,
+    data: unknown,
+    {
+      idempotencyKey,
+      apiKey,
+      ...options
+    }: MynthClientRequestOptions & { idempotencyKey?: string } = {},
+  ): Promise<DataType> {
+    const key = idempotencyKey ?? (this.retry.maxRetries > 0 ? crypto.randomUUID() : undefined);
+
+    // Without an idempotency key, a POST that failed without a response may have been
+    // processed, so it's not retried
+    const response = await this.request<DataType>(
+      "POST",
+      path,
+      {
+        headers: {
+          "Content-Type": "application/json",
+          ...this.getAuthHeaders({ apiKey }),
+          ...(key ? { [IDEMPOTENCY_KEY_HEADER]: key } : {}),
+        },
+        body: JSON.stringify(data),
+      },
+      { ...options, retryNetworkErrors: key !== undefined },
+    );
 
     if (!response.ok) {
-      const errorResponse = json as APIErrorResponse;
-      const message =
-        errorResponse.error ||
-        errorResponse.message ||
-        `Request failed with status ${response.status}`;
-      throw new MynthAPIError(message, response.status, errorResponse.code);
+      throw createAPIError(response);
     }
 
-    return json as DataType;
+    return response.data;
   }
 
+  /**
+   * Sends a GET request. Non-2xx statuses are returned, not thrown.
+   *
+   * @param options - Per-call options; `accessToken` takes precedence over `apiKey`.
+   * `maxRetries` overrides the retry policy's, e.g. `0` for callers with their own retries.
+   * @throws {MynthAPIError} If a 2xx response isn't JSON
+   * @throws {MynthNetworkError} If the request fails without a response
+   * @throws {MynthTimeoutError} If the request times out
+   */
   public async get<DataType>(
     path: string,
-    { headers, accessToken }: { headers?: Record<string, string>; accessToken?: string } = {},
-  ): Promise<{ data: DataType; status: number; ok: boolean }> {
-    const response = await fetch(this.getUrl(path), {
-      headers: {
-        ...this.getAuthHeaders({ accessToken }),
-        ...headers,
-      },
-    });
+    {
+      accessToken,
+      apiKey,
+      ...options
+    }: MynthClientRequestOptions & { accessToken?: string; maxRetries?: number } = {},
+  ): Promise<MynthClientResponse<DataType>> {
+    return this.request<DataType>(
+      "GET",
+      path,
+      { headers: this.getAuthHeaders({ accessToken, apiKey }) },
+      { ...options, retryNetworkErrors: true },
+    );
+  }
+
+  /**
+   * Sends a request with the client's retry policy and timeout. Returns the last response
+   * once it isn't retryable or retries are exhausted.
+   *
+   * Headers are merged in order: the client's default headers, `init.headers`, then the
+   * per-call `headers`.
+   */
+  private async request<DataType>(
+    method: string,
+    path: string,
+    init: { headers: Record<string, string>; body?: string },
+    {
+      headers,
+      signal,
+      timeoutMs = this.timeoutMs,
+      maxRetries = this.retry.maxRetries,
+      retryNetworkErrors,
+    }: Omit<MynthClientRequestOptions, "apiKey"> & {
+      maxRetries?: number;
+      retryNetworkErrors: boolean;
+    },
+  ): Promise<MynthClientResponse<DataType>> {
+    const url = this.getUrl(path);
+    const requestHeaders = mergeHeaders(this.defaultHeaders, init.headers, headers);
+    let retries = 0;
+
+    while (true) {
+      const timeoutSignal = timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined;
+      const combined = signal && timeoutSignal ? combineSignals(signal, timeoutSignal) : undefined;
+
+      let result: MynthClientAttemptResult<DataType>;
+      try {
+        result = await this.attempt<DataType>(
+          { url, method, headers: requestHeaders, body: init.body, attempt: retries + 1 },
+          combined?.signal ?? signal ?? timeoutSignal,
+          timeoutSignal,
+          retries,
+          maxRetries,
+        );
+      } finally {
+        combined?.dispose();
+      }
 
-    const data = (await response.json()) as DataType;
+      if (result.type === "response") {
+        return result.response;
+      }
+
+      let delayMs: number;
+      if (result.type === "failed") {
+        // Aborts are the caller's decision, so they're rethrown as-is
+        if (signal?.aborted) throw result.error;
+
+        if (!retryNetworkErrors || retries >= maxRetries) {
+          throw result.timedOut
+            ? new MynthTimeoutError(url, timeoutMs, retries)
+            : new MynthNetworkError(url, result.error, retries);
+        }
+
+        delayMs = this.getRetryDelay(retries);
+      } else {
+        delayMs = result.delayMs;
+      }
+
+      await sleep(delayMs, signal);
+      retries++;
+    }
+  }
+
+  /**
+   * Makes a single attempt, running interceptors around it. Errors thrown by
+   * interceptors propagate; network failures are returned.
+   */
+  private async attempt<DataType>(
+    initialRequest: MynthRequest,
+    signal: AbortSignal | undefined,
+    timeoutSignal: AbortSignal | undefined,
+    retries: number,
+    maxRetries: number,
+  ): Promise<MynthClientAttemptResult<DataType>> {
+    let request = initialRequest;
+    for (const interceptor of this.interceptors) {
+      request = (await interceptor.onRequest?.(request)) ?? request;
+    }
+
+    const startTime = Date.now();
+    const context = (): MynthResponseContext => ({ request, durationMs: Date.now() - startTime });
+    const fail = async (error: unknown): Promise<MynthClientAttemptResult<DataType>> => {
+      const errorContext = context();
+      for (const interceptor of this.interceptors) {
+        await interceptor.onError?.(error, errorContext);
+      }
+      return { type: "failed", error, timedOut: timeoutSignal?.aborted ?? false };
+    };
+
+    let response: Response;
+    try {
+      response = await this.fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal,
+      });
+    } catch (error) {
+      return fail(error);
+    }
+
+    const responseContext = context();
+    for (const interceptor of this.interceptors) {
+      await interceptor.onResponse?.(response, responseContext);
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+    if (this.isRetryableStatus(response.status) && retries < maxRetries) {
+      if (retryAfter === undefined || retryAfter <= this.retry.maxDelayMs) {
+        await response.body?.cancel();
+        return { type: "retry", delayMs: retryAfter ?? this.getRetryDelay(retries) };
+      }
+    }
+
+    let parsed: { body: unknown; isJson: boolean };
+    try {
+      parsed = await readBody(response);
+    } catch (error) {
+      return fail(error);
+    }
+
+    const result: MynthClientResponse<DataType> = {
+      data: parsed.body as DataType,
+      status: response.status,
+      ok: response.ok,
+      retries,
+      requestId: response.headers.get(REQUEST_ID_HEADER) ?? undefined,
+      retryAfterMs: retryAfter,
+      url: request.url,
+      method: request.method,
+    };
+
+    if (response.ok && !parsed.isJson) {
+      throw createAPIError(result, `Expected a JSON response with status ${response.status}`);
+    }
+
+    return { type: "response", response: result };
+  }
 
-    return { data, status: response.status, ok: response.ok };
+  private getRetryDelay(retries: number): number {
+    const { initialDelayMs, maxDelayMs, jitterMs } = this.retry;
+    return Math.min(initialDelayMs * 2 ** retries, maxDelayMs) + Math.random() * jitterMs;
   }
 }
 
-export { MynthClient };
+export { createAPIError, MynthClient };
+export type { MynthClientOptions, MynthClientRequestOptions, MynthClientResponse };
@@ -4,10 +4,26 @@ export const API_URL = "https://api.mynth.io";
 /** Environment variable name for the API key */
 export const API_KEY_ENV_VAR = "MYNTH_API_KEY";
 
+/** Version of this SDK, kept in sync with package.json by release-please */
+export const SDK_VERSION = "0.0.5"; // x-release-please-version
+
+/** User-Agent sent with every request */
+export const SDK_USER_AGENT = `mynth-sdk-js/${SDK_VERSION}`;
+
+/** Header carrying the SDK version, since browsers don't allow overriding User-Agent */
+export const SDK_VERSION_HEADER = "X-Mynth-SDK-Version";
+
+/** Header tying retried POST requests together, so they're only processed once */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/** Response header identifying a request, for support requests */
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
 export const GENERATE_IMAGE_PATH = "/image/generate";
 export const TASK_PATH = "/tasks";
 export const TASK_DETAILS_PATH = (id: string) => `${TASK_PATH}/${id}`;
 export const TASK_STATUS_PATH = (id: string) => `${TASK_PATH}/${id}/status`;
+export const MODELS_PATH = "/models";
 
 /**
  * Model capabilities that affect available generation options.
@@ -47,8 +63,9 @@ export type AvailableModel = {
 /**
  * List of all available image generation models with their capabilities.
  * Use this to build model selectors or validate model IDs.
+ * Declared `as const`, so request types can be derived from each model's capabilities.
  */
-export const AVAILABLE_MODELS: readonly AvailableModel[] = [
+export const AVAILABLE_MODELS = [
   {
     id: "auto",
     label: "Auto",
@@ -119,4 +136,4 @@ export const AVAILABLE_MODELS: readonly AvailableModel[] = [
     label: "Grok Imagine Image",
     capabilities: ["auto_size"],
   },
-];
+] as const satisfies readonly AvailableModel[];
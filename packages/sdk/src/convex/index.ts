@@ -1,36 +1,20 @@
 import type { GenericActionCtx } from "convex/server";
 
-import type { MynthSDKTypes } from "../types";
-import { tryToGetWebhookSecretFromEnv, verifySignature } from "./utils";
-
-// Webhook header constants
-const WEBHOOK_HEADERS_EVENT = "X-Mynth-Event";
-const WEBHOOK_HEADERS_SIGNATURE = "X-Mynth-Signature";
+import { createWebhookRequestHandler } from "../webhooks/handler";
+import type { MynthWebhookHandlerOptions, WebhookEventHandlers } from "../webhooks/handler";
+import type { WebhookVerification } from "../webhooks/verify";
 
 /**
  * Event handlers for Mynth webhook events.
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Convex generic requires any
-export type EventHandlers<T extends GenericActionCtx<any> = GenericActionCtx<any>> = {
-  /** Called when an image generation task completes successfully */
-  imageTaskCompleted?: (
-    payload: MynthSDKTypes.WebhookTaskImageCompletedPayload,
-    context: { context: T; request: Request },
-  ) => Promise<void>;
-  /** Called when an image generation task fails */
-  imageTaskFailed?: (
-    payload: MynthSDKTypes.WebhookTaskImageFailedPayload,
-    context: { context: T; request: Request },
-  ) => Promise<void>;
-};
+export type EventHandlers<T extends GenericActionCtx<any> = GenericActionCtx<any>> =
+  WebhookEventHandlers<{ context: T; request: Request; verification: WebhookVerification }>;
 
 /**
  * Options for configuring the webhook action.
  */
-export type MynthWebhookActionOptions = {
-  /** Webhook secret for signature verification. Defaults to MYNTH_WEBHOOK_SECRET env var. */
-  webhookSecret?: string;
-};
+export type MynthWebhookActionOptions = MynthWebhookHandlerOptions;
 
 /**
  * Creates a Convex HTTP action handler for Mynth webhooks.
@@ -61,58 +45,13 @@ export const mynthWebhookAction = (
   eventHandlers: EventHandlers,
   options?: MynthWebhookActionOptions,
 ) => {
-  const webhookSecret = options?.webhookSecret ?? tryToGetWebhookSecretFromEnv();
-
-  if (!webhookSecret) {
-    throw new Error(
-      "MYNTH_WEBHOOK_SECRET is required. Either pass it as an option or set the environment variable.",
-    );
-  }
+  const handleRequest = createWebhookRequestHandler(eventHandlers, options);
 
   // Return a function that matches PublicHttpAction signature
   return async (
     // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Convex generic requires any
     ctx: GenericActionCtx<any>,
     request: Request,
-  ): Promise<Response> => {
-    const signature = request.headers.get(WEBHOOK_HEADERS_SIGNATURE);
-
-    if (!signature) {
-      return new Response("Unauthorized", { status: 401 });
-    }
-
-    const event = request.headers.get(WEBHOOK_HEADERS_EVENT);
-
-    if (!event) {
-      return new Response("Unauthorized", { status: 401 });
-    }
-
-    const bodyRaw = await request.text();
-    const isValid = await verifySignature(bodyRaw, signature, webhookSecret);
-
-    if (!isValid) {
-      return new Response("Unauthorized", { status: 401 });
-    }
-
-    const payload = JSON.parse(bodyRaw) as MynthSDKTypes.WebhookPayload;
-
-    switch (payload.event) {
-      case "task.image.completed":
-        await eventHandlers.imageTaskCompleted?.(payload, {
-          context: ctx,
-          request,
-        });
-        break;
-      case "task.image.failed":
-        await eventHandlers.imageTaskFailed?.(payload, {
-          context: ctx,
-          request,
-        });
-        break;
-      default:
-        return new Response("Unauthorized", { status: 401 });
-    }
-
-    return new Response(undefined, { status: 200 });
-  };
+  ): Promise<Response> =>
+    handleRequest(request, (verification) => ({ context: ctx, request, verification }));
 };
@@ -0,0 +1,73 @@
+import { describe, expectTypeOf, test } from "vitest";
+
+import type { Mynth } from "./index";
+
+// Checked by `tsc` (`bun run typecheck`): each `@ts-expect-error` pins the diagnostic
+// to the offending property, so the request type must not collapse to `never`.
+declare const mynth: Mynth;
+
+// ============================================================================
+// generate() request types
+// ============================================================================
+
+describe("generate() request types", () => {
+  test("accepts fields the model supports", () => {
+    expectTypeOf(
+      mynth.generate({
+        prompt: { positive: "A cat", negative: "dogs", enhance: false },
+        model: "john6666/bismuth-illustrious-mix",
+        steps: 30,
+      }),
+    ).resolves.toHaveProperty("urls");
+
+    expectTypeOf(
+      mynth.generate(
+        { prompt: "A cat", inputs: ["https://example.com/cat.png"] },
+        { mode: "async" },
+      ),
+    ).resolves.toHaveProperty("access");
+  });
+
+  test("reports unsupported fields on the field itself", () => {
+    mynth.generate({
+      prompt: "A cat",
+      model: "black-forest-labs/flux.1-dev",
+      // @ts-expect-error - The model doesn't support input images
+      inputs: ["https://example.com/cat.png"],
+    });
+
+    mynth.generate(
+      {
+        prompt: "A cat",
+        model: "black-forest-labs/flux.1-dev",
+        // @ts-expect-error - The model doesn't support custom schedulers
+        scheduler: "euler",
+      },
+      { mode: "async" },
+    );
+
+    mynth.generate(
+      {
+        // @ts-expect-error - The model doesn't support negative prompts
+        prompt: { positive: "A cat", negative: "dogs", enhance: false },
+        model: "black-forest-labs/flux.1-dev",
+      },
+      { mode: "sync" },
+    );
+  });
+
+  test("only allows the capabilities a model selector requires", () => {
+    mynth.generate({
+      prompt: "A cat",
+      model: { requires: ["inputs"] },
+      inputs: ["https://example.com/cat.png"],
+    });
+
+    mynth.generate({
+      prompt: "A cat",
+      model: { requires: ["inputs"] },
+      // @ts-expect-error - Steps aren't a required capability
+      steps: 30,
+    });
+  });
+});
@@ -1,17 +1,55 @@
-import { MynthAPIError, MynthClient } from "./client";
+import {
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  DEFAULT_RETRY_POLICY,
+  MynthAPIError,
+  MynthClient,
+  MynthNetworkError,
+  MynthTimeoutError,
+} from "./client";
+import type {
+  MynthAPIErrorDetails,
+  MynthFetch,
+  MynthInterceptor,
+  MynthRequest,
+  MynthRequestOptions,
+  MynthResponseContext,
+  RetryPolicy,
+} from "./client";
 import type { AvailableModel, ModelCapability } from "./constants";
-import { API_KEY_ENV_VAR, AVAILABLE_MODELS, GENERATE_IMAGE_PATH } from "./constants";
+import { API_KEY_ENV_VAR, AVAILABLE_MODELS, GENERATE_IMAGE_PATH, SDK_VERSION } from "./constants";
+import { DEFAULT_MODEL_CACHE_TTL_MS, findModels, MynthModels, pickModel } from "./models";
+import type { AvailableModelEntry, ListModelsOptions } from "./models";
 import type { Task } from "./task";
-import type { TaskAsyncAccess } from "./task-async";
+import type {
+  PollingIntervalFunction,
+  PollingPhase,
+  PollingStrategy,
+  TaskAsyncAccess,
+  TaskAsyncFromAccessOptions,
+  TaskAsyncPollEvent,
+  TaskAsyncUpdate,
+  TaskAsyncWaitOptions,
+} from "./task-async";
 import {
+  DEFAULT_POLLING_STRATEGY,
   TaskAsync,
+  TaskAsyncAbortedError,
   TaskAsyncFetchError,
   TaskAsyncTaskFailedError,
   TaskAsyncTaskFetchError,
   TaskAsyncTimeoutError,
   TaskAsyncUnauthorizedError,
 } from "./task-async";
+import { MynthTasks } from "./tasks";
+import type { ListTasksParams, ResumeTaskOptions, TaskList } from "./tasks";
 import type { MynthSDKTypes } from "./types";
+import { MynthValidationError, validateRequest } from "./validation";
+import type {
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationMode,
+  ValidationResult,
+} from "./validation";
 
 /**
  * Options for the generate method.
@@ -19,6 +57,29 @@ import type { MynthSDKTypes } from "./types";
 type GenerateOptions = {
   /** Whether to wait for completion ("sync") or return immediately ("async") */
   mode?: "sync" | "async";
+  /**
+   * Cancels the request, and in sync mode stops waiting for completion,
+   * rejecting with `TaskAsyncAbortedError`.
+   */
+  signal?: AbortSignal;
+  /**
+   * Ties retries of this request together, so a retried request returns the original
+   * task instead of starting a new one. Generated automatically when retries are enabled;
+   * pass your own to also deduplicate retries of the whole `generate` call.
+   */
+  idempotencyKey?: string;
+  /**
+   * Timeout of each request attempt for the generate request and for polling the task,
+   * overriding the client's `timeoutMs`. Waiting for completion is limited by `polling.timeoutMs`.
+   */
+  timeoutMs?: number;
+  /** Extra headers for the generate request and for polling the task */
+  headers?: Record<string, string>;
+  /**
+   * API key for this call, used for the generate request and for polling the task.
+   * Overrides the client's key, e.g. with a customer's own key in a multi-tenant app.
+   */
+  apiKey?: string;
 };
 
 /**
@@ -33,17 +94,60 @@ type MynthOptions = {
    * Custom base URL for the API. Useful for proxies or testing.
    */
   baseUrl?: string;
+  /**
+   * Default polling strategy for waiting on tasks. Can be overridden per call
+   * with `taskAsync.toTask({ polling })`.
+   */
+  polling?: PollingStrategy;
+  /**
+   * Retry policy for failed API requests. Status polling retries the same statuses and
+   * honors `Retry-After`, but failed status requests count against `polling.maxRetries`.
+   * Statuses in `retryableStatuses` are retried. POSTs that failed without a response
+   * are only retried with an idempotency key, which is generated while retries are enabled.
+   */
+  retry?: RetryPolicy;
+  /**
+   * Timeout of each API request attempt, in milliseconds (default: 60 seconds).
+   * `0` disables it. Waiting for a task is limited by `polling.timeoutMs` instead.
+   */
+  timeoutMs?: number;
+  /**
+   * How long `mynth.models.list()` caches the model catalog, in milliseconds
+   * (default: 5 minutes).
+   */
+  modelCacheTtlMs?: number;
+  /**
+   * Validates requests against the model's capabilities in `AVAILABLE_MODELS` before
+   * sending them (default: "off"). See `validateRequest`.
+   */
+  validate?: ValidationMode;
+  /**
+   * Headers sent with every API request, e.g. a tenant id for a proxy. They override the
+   * SDK's `User-Agent` and `X-Mynth-SDK-Version` headers.
+   */
+  defaultHeaders?: Record<string, string>;
+  /**
+   * `fetch` implementation for all API requests, e.g. one using an undici agent or proxy.
+   * Defaults to the global `fetch`.
+   */
+  fetch?: MynthFetch;
+  /**
+   * Interceptors for every API request attempt (generate, task status and task details),
+   * run in order. Use them to add tracing headers or log latency.
+   */
+  interceptors?: MynthInterceptor[];
 };
 
 // Extract metadata type from ImageGenerationRequest
-type ExtractMetadata<T extends MynthSDKTypes.ImageGenerationRequest> = T["metadata"];
+type ExtractMetadata<T extends MynthSDKTypes.ImageGenerationRequestWithModelSelector> =
+  T["metadata"];
 
 // Extract content rating configuration from ImageGenerationRequest
-type ExtractContentRatingConfig<T extends MynthSDKTypes.ImageGenerationRequest> =
+type ExtractContentRatingConfig<T extends MynthSDKTypes.ImageGenerationRequestWithModelSelector> =
   T["content_rating"];
 
 // Extract content rating levels for custom mode - handle both mutable and readonly arrays
-type ExtractContentRatingLevels<T extends MynthSDKTypes.ImageGenerationRequest> =
+type ExtractContentRatingLevels<T extends MynthSDKTypes.ImageGenerationRequestWithModelSelector> =
   ExtractContentRatingConfig<T> extends { levels: readonly (infer L)[] }
     ? L
     : ExtractContentRatingConfig<T> extends { levels: (infer L)[] }
@@ -51,16 +155,18 @@ type ExtractContentRatingLevels<T extends MynthSDKTypes.ImageGenerationRequest>
       : never;
 
 // Extract content rating level values as union type
-type ExtractContentRatingLevelValues<T extends MynthSDKTypes.ImageGenerationRequest> =
+type ExtractContentRatingLevelValues<
+  T extends MynthSDKTypes.ImageGenerationRequestWithModelSelector,
+> =
   ExtractContentRatingLevels<T> extends { value: infer V } ? (V extends string ? V : never) : never;
 
 // Determine if content rating is custom (has levels defined)
-type IsContentRatingCustom<T extends MynthSDKTypes.ImageGenerationRequest> =
+type IsContentRatingCustom<T extends MynthSDKTypes.ImageGenerationRequestWithModelSelector> =
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Required for type inference
   ExtractContentRatingConfig<T> extends { levels: readonly any[] | any[] } ? true : false;
 
 // Create the appropriate content rating response type based on request config
-type ExtractContentRatingResponse<T extends MynthSDKTypes.ImageGenerationRequest> =
+type ExtractContentRatingResponse<T extends MynthSDKTypes.ImageGenerationRequestWithModelSelector> =
   IsContentRatingCustom<T> extends true
     ? {
         mode: "custom";
@@ -73,6 +179,43 @@ type ExtractContentRatingResponse<T extends MynthSDKTypes.ImageGenerationRequest
         }
       : MynthSDKTypes.ImageResultContentRating | undefined;
 
+// Restrict the request to the fields the model supports. With a model selector, only the
+// required capabilities are known to be supported.
+type GenerateRequestForModel<M> = [M] extends [MynthSDKTypes.ImageGenerationModel | undefined]
+  ? MynthSDKTypes.ImageGenerationRequestForModel<M>
+  : [M] extends [{ requires: readonly (infer C extends ModelCapability)[] }]
+    ? Omit<MynthSDKTypes.ImageGenerationRequestWithCapabilities<C>, "model">
+    : MynthSDKTypes.ImageGenerationRequestWithModelSelector;
+
+/**
+ * Replaces a model selector with the id of the model it picks.
+ *
+ * @throws {MynthValidationError} If no model matches the selector
+ */
+function resolveModelSelector(
+  request: MynthSDKTypes.ImageGenerationRequestWithModelSelector,
+): MynthSDKTypes.ImageGenerationRequest {
+  const { model } = request;
+  if (typeof model !== "object") {
+    return { ...request, model };
+  }
+
+  const modelId = pickModel(model);
+  if (!modelId) {
+    throw new MynthValidationError([
+      {
+        path: ["model"],
+        code: "no_matching_model",
+        message: `No model has capabilities [${model.requires.join(", ")}]${
+          model.excludes?.length ? ` without [${model.excludes.join(", ")}]` : ""
+        }`,
+      },
+    ]);
+  }
+
+  return { ...request, model: modelId };
+}
+
 /**
  * Attempts to read the API key from environment variables.
  * Works in Node.js, Bun, Deno, and edge runtimes that support process.env.
@@ -107,12 +250,30 @@ function getApiKeyFromEnv(): string | undefined {
 class Mynth {
   private readonly client: MynthClient;
 
+  private readonly polling: PollingStrategy | undefined;
+
+  private readonly validate: ValidationMode;
+
+  /** Access to existing tasks, e.g. to resume waiting on a task created by another process */
+  public readonly tasks: MynthTasks;
+
+  /** The live model catalog */
+  public readonly models: MynthModels;
+
   /**
    * Creates a new Mynth client instance.
    *
    * @param options - Configuration options
    * @param options.apiKey - Your API key (defaults to MYNTH_API_KEY env var)
    * @param options.baseUrl - Custom API base URL
+   * @param options.polling - Default polling strategy for waiting on tasks
+   * @param options.retry - Retry policy for failed API requests
+   * @param options.timeoutMs - Timeout of each API request attempt
+   * @param options.modelCacheTtlMs - How long the model catalog is cached
+   * @param options.validate - How requests are validated before sending them
+   * @param options.defaultHeaders - Headers sent with every API request
+   * @param options.fetch - `fetch` implementation for all API requests
+   * @param options.interceptors - Interceptors for every API request attempt
    * @throws {Error} If no API key is provided and MYNTH_API_KEY is not set
    */
   constructor(options: MynthOptions = {}) {
@@ -127,7 +288,16 @@ class Mynth {
     this.client = new MynthClient({
       apiKey,
       baseUrl: options.baseUrl,
+      retry: options.retry,
+      timeoutMs: options.timeoutMs,
+      defaultHeaders: options.defaultHeaders,
+      fetch: options.fetch,
+      interceptors: options.interceptors,
     });
+    this.polling = options.polling;
+    this.validate = options.validate ?? "off";
+    this.tasks = new MynthTasks({ client: this.client, polling: this.polling });
+    this.models = new MynthModels({ client: this.client, cacheTtlMs: options.modelCacheTtlMs });
   }
 
   /**
@@ -135,6 +305,7 @@ class Mynth {
    *
    * @param request - Image generation request parameters
    * @returns A completed Task with the generation results
+   * @throws {MynthValidationError} If the request fails validation with `validate: "strict"`
    *
    * @example
    * ```typescript
@@ -145,8 +316,10 @@ class Mynth {
    * console.log(task.urls);
    * ```
    */
-  public async generate<const T extends MynthSDKTypes.ImageGenerationRequest>(
-    request: T,
+  public async generate<const T extends MynthSDKTypes.ImageGenerationRequestWithModelSelector>(
+    request: T extends GenerateRequestForModel<T["model"]>
+      ? T
+      : GenerateRequestForModel<T["model"]>,
   ): Promise<Task<ExtractMetadata<T>, ExtractContentRatingResponse<T>>>;
 
   /**
@@ -170,9 +343,11 @@ class Mynth {
    * const task = await taskAsync.toTask();
    * ```
    */
-  public async generate<const T extends MynthSDKTypes.ImageGenerationRequest>(
-    request: T,
-    opts: { mode: "async" },
+  public async generate<const T extends MynthSDKTypes.ImageGenerationRequestWithModelSelector>(
+    request: T extends GenerateRequestForModel<T["model"]>
+      ? T
+      : GenerateRequestForModel<T["model"]>,
+    opts: GenerateOptions & { mode: "async" },
   ): Promise<TaskAsync<ExtractMetadata<T>, ExtractContentRatingResponse<T>>>;
 
   /**
@@ -181,34 +356,77 @@ class Mynth {
    * @param request - Image generation request parameters
    * @param opts - Options with mode set to "sync"
    * @returns A completed Task with the generation results
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * const task = await mynth.generate(
+   *   { prompt: "A serene lake at dawn" },
+   *   { mode: "sync", signal: controller.signal },
+   * );
+   * ```
    */
-  public async generate<const T extends MynthSDKTypes.ImageGenerationRequest>(
-    request: T,
-    opts: { mode: "sync" },
+  public async generate<const T extends MynthSDKTypes.ImageGenerationRequestWithModelSelector>(
+    request: T extends GenerateRequestForModel<T["model"]>
+      ? T
+      : GenerateRequestForModel<T["model"]>,
+    opts: GenerateOptions & { mode: "sync" },
   ): Promise<Task<ExtractMetadata<T>, ExtractContentRatingResponse<T>>>;
 
   // Implementation
-  public async generate<const T extends MynthSDKTypes.ImageGenerationRequest>(
-    request: T,
+  public async generate<const T extends MynthSDKTypes.ImageGenerationRequestWithModelSelector>(
+    requestIn: T,
     opts: GenerateOptions = {},
   ): Promise<
     | Task<ExtractMetadata<T>, ExtractContentRatingResponse<T>>
     | TaskAsync<ExtractMetadata<T>, ExtractContentRatingResponse<T>>
   > {
     const mode = opts.mode ?? "sync";
+    const { headers, apiKey, timeoutMs } = opts;
+    const request = resolveModelSelector(requestIn);
+
+    if (this.validate !== "off") {
+      const { valid, issues } = validateRequest(request);
 
-    const json = await this.client.post<{
+      if (!valid && this.validate === "strict") {
+        throw new MynthValidationError(issues);
+      }
+
+      for (const issue of issues) {
+        // eslint-disable-next-line no-console -- "warn" mode reports issues on the console by design
+        console.warn(`[mynth] ${issue.message}`);
+      }
+    }
+
+    let json: {
       taskId: string;
       access?: {
         publicAccessToken: string;
       };
-    }>(GENERATE_IMAGE_PATH, request);
+    };
+    try {
+      json = await this.client.post<typeof json>(GENERATE_IMAGE_PATH, request, {
+        signal: opts.signal,
+        idempotencyKey: opts.idempotencyKey,
+        timeoutMs,
+        headers,
+        apiKey,
+      });
+    } catch (error) {
+      // The client rethrows the raw abort reason, so a cancel always surfaces as one error type
+      if (opts.signal?.aborted) {
+        throw new TaskAsyncAbortedError(undefined, opts.signal.reason);
+      }
+      throw error;
+    }
 
     const taskAsync = new TaskAsync<ExtractMetadata<T>, ExtractContentRatingResponse<T>>(
       json.taskId,
       {
         client: this.client,
         pat: json.access?.publicAccessToken,
+        polling: this.polling,
+        requestOptions: { headers, apiKey, timeoutMs },
       },
     );
 
@@ -216,27 +434,64 @@ class Mynth {
       return taskAsync;
     }
 
-    return taskAsync.toTask();
+    return taskAsync.toTask({ signal: opts.signal });
   }
 }
 
 export {
   AVAILABLE_MODELS,
+  DEFAULT_MODEL_CACHE_TTL_MS,
+  DEFAULT_POLLING_STRATEGY,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  DEFAULT_RETRY_POLICY,
   Mynth,
   // Error classes
   MynthAPIError,
+  MynthModels,
+  MynthNetworkError,
+  MynthTasks,
+  MynthTimeoutError,
+  MynthValidationError,
+  SDK_VERSION,
+  TaskAsyncAbortedError,
   TaskAsyncFetchError,
   TaskAsyncTaskFailedError,
   TaskAsyncTaskFetchError,
   TaskAsyncTimeoutError,
   TaskAsyncUnauthorizedError,
+  findModels,
+  pickModel,
+  validateRequest,
 };
 export type {
   AvailableModel,
+  AvailableModelEntry,
   GenerateOptions,
+  ListModelsOptions,
+  ListTasksParams,
   ModelCapability,
+  MynthAPIErrorDetails,
+  MynthFetch,
+  MynthInterceptor,
   MynthOptions,
+  MynthRequest,
+  MynthRequestOptions,
+  MynthResponseContext,
   MynthSDKTypes,
+  PollingIntervalFunction,
+  PollingPhase,
+  PollingStrategy,
+  ResumeTaskOptions,
+  RetryPolicy,
   TaskAsyncAccess,
+  TaskAsyncFromAccessOptions,
+  TaskAsyncPollEvent,
+  TaskAsyncUpdate,
+  TaskAsyncWaitOptions,
+  TaskList,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationMode,
+  ValidationResult,
 };
 export default Mynth;
@@ -0,0 +1,258 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+
+import type { MynthClient } from "./client";
+import { MynthAPIError, MynthNetworkError } from "./client";
+import { AVAILABLE_MODELS } from "./constants";
+import { Mynth } from "./index";
+import { DEFAULT_MODEL_CACHE_TTL_MS, findModels, MynthModels, pickModel } from "./models";
+import type { MynthSDKTypes } from "./types";
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function createMockClient(get: ReturnType<typeof vi.fn>): MynthClient {
+  return { get } as unknown as MynthClient;
+}
+
+const CATALOG: MynthSDKTypes.ModelData[] = [
+  {
+    id: "acme/new-model",
+    label: "New Model",
+    capabilities: ["inputs"],
+    pricing: { perImage: "0.02" },
+    sizes: ["1024x1024"],
+  },
+];
+
+function catalogResponse(models = CATALOG) {
+  return { ok: true, status: 200, data: { data: models } };
+}
+
+// ============================================================================
+// MynthModels.list()
+// ============================================================================
+
+describe("MynthModels.list()", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("returns the catalog from the API and caches it until the TTL expires", async () => {
+    // Arrange
+    const mockGet = vi.fn().mockResolvedValue(catalogResponse());
+    const models = new MynthModels({ client: createMockClient(mockGet) });
+
+    // Act
+    const first = await models.list();
+    await models.list();
+    vi.advanceTimersByTime(DEFAULT_MODEL_CACHE_TTL_MS);
+    await models.list();
+
+    // Assert
+    expect(first).toEqual(CATALOG);
+    expect(mockGet).toHaveBeenCalledTimes(2);
+    expect(mockGet).toHaveBeenCalledWith("/models", undefined);
+  });
+
+  test("fetches again with refresh, and shares one request between concurrent calls", async () => {
+    // Arrange
+    const mockGet = vi.fn().mockResolvedValue(catalogResponse());
+    const models = new MynthModels({ client: createMockClient(mockGet), cacheTtlMs: 60_000 });
+    await models.list();
+
+    // Act
+    await Promise.all([models.list({ refresh: true }), models.list({ refresh: true })]);
+
+    // Assert
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+
+  test("falls back to the bundled models when the catalog can't be fetched", async () => {
+    // Arrange
+    const mockGet = vi
+      .fn()
+      .mockRejectedValue(new MynthNetworkError("https://api.mynth.io/models", new Error()));
+    const models = new MynthModels({ client: createMockClient(mockGet) });
+
+    // Act
+    const result = await models.list();
+    await models.list();
+
+    // Assert
+    expect(result.map((model) => model.id)).toEqual(AVAILABLE_MODELS.map((model) => model.id));
+    expect(result[0]).not.toHaveProperty("pricing");
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+
+  test("falls back to the last fetched catalog once it has expired", async () => {
+    // Arrange
+    const mockGet = vi
+      .fn()
+      .mockResolvedValueOnce(catalogResponse())
+      .mockResolvedValueOnce({ ok: false, status: 503, data: { error: "Unavailable" } });
+    const models = new MynthModels({ client: createMockClient(mockGet), cacheTtlMs: 1_000 });
+    await models.list();
+    vi.advanceTimersByTime(1_000);
+
+    // Act
+    const result = await models.list();
+
+    // Assert
+    expect(result).toEqual(CATALOG);
+  });
+
+  test("rethrows client errors instead of falling back", async () => {
+    // Arrange
+    const mockGet = vi
+      .fn()
+      .mockResolvedValueOnce(catalogResponse())
+      .mockResolvedValueOnce({ ok: false, status: 401, data: { error: "Invalid API key" } });
+    const models = new MynthModels({ client: createMockClient(mockGet) });
+    await models.list();
+
+    // Act
+    const refreshing = models.list({ refresh: true });
+
+    // Assert
+    await expect(refreshing).rejects.toThrow(MynthAPIError);
+    await expect(refreshing).rejects.toMatchObject({ status: 401 });
+  });
+
+  test("caches the catalog per API key", async () => {
+    // Arrange
+    const otherCatalog = [{ ...CATALOG[0]!, id: "acme/private-model" }];
+    const mockGet = vi
+      .fn()
+      .mockResolvedValueOnce(catalogResponse())
+      .mockResolvedValueOnce(catalogResponse(otherCatalog));
+    const models = new MynthModels({ client: createMockClient(mockGet) });
+
+    // Act
+    const [own, other] = await Promise.all([
+      models.list(),
+      models.list({}, { apiKey: "mak_customer" }),
+    ]);
+    await models.list({}, { apiKey: "mak_customer" });
+
+    // Assert
+    expect(own).toEqual(CATALOG);
+    expect(other).toEqual(otherCatalog);
+    expect(mockGet).toHaveBeenCalledTimes(2);
+    expect(mockGet).toHaveBeenLastCalledWith("/models", { apiKey: "mak_customer" });
+  });
+
+  test("rethrows aborts instead of falling back", async () => {
+    // Arrange
+    const controller = new AbortController();
+    const abortError = new DOMException("Aborted", "AbortError");
+    const mockGet = vi.fn().mockImplementation(async () => {
+      controller.abort(abortError);
+      throw abortError;
+    });
+    const models = new MynthModels({ client: createMockClient(mockGet) });
+
+    // Act & Assert
+    await expect(models.list({}, { signal: controller.signal })).rejects.toBe(abortError);
+  });
+});
+
+// ============================================================================
+// MynthModels.isModelAvailable()
+// ============================================================================
+
+describe("MynthModels.isModelAvailable()", () => {
+  test("checks the model against the catalog", async () => {
+    // Arrange
+    const mockGet = vi.fn().mockResolvedValue(catalogResponse());
+    const models = new MynthModels({ client: createMockClient(mockGet) });
+
+    // Act & Assert
+    await expect(models.isModelAvailable("acme/new-model")).resolves.toBe(true);
+    await expect(models.isModelAvailable("black-forest-labs/flux.1-dev")).resolves.toBe(false);
+    await expect(models.isModelAvailable("auto")).resolves.toBe(true);
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ============================================================================
+// findModels() and pickModel()
+// ============================================================================
+
+describe("findModels()", () => {
+  test("returns models with every required capability and no excluded one, in order", () => {
+    // Act
+    const models = findModels({ requires: ["inputs"], excludes: ["enhance_prompt"] });
+
+    // Assert
+    expect(models.map((model) => model.id)).toEqual([
+      "bytedance/seedream-5.0-lite",
+      "black-forest-labs/flux.2-klein-4b",
+    ]);
+  });
+
+  test("never returns the auto model", () => {
+    // Act
+    const models = findModels({ requires: [] });
+
+    // Assert
+    expect(models.map((model) => model.id)).not.toContain("auto");
+    expect(models).toHaveLength(AVAILABLE_MODELS.length - 1);
+  });
+});
+
+describe("pickModel()", () => {
+  test("picks the first matching model, or undefined when none matches", () => {
+    // Act & Assert
+    expect(pickModel({ requires: ["inputs", "custom_resolution"] })).toBe("alibaba/qwen-image-2.0");
+    expect(pickModel({ requires: ["inputs", "negative_prompt"] })).toBeUndefined();
+  });
+});
+
+describe("Mynth model selector", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("resolves the selector to a model id before sending the request", async () => {
+    // Arrange
+    const fetchMock = vi.fn().mockResolvedValue(Response.json({ taskId: "task-1" }));
+    vi.stubGlobal("fetch", fetchMock);
+    const mynth = new Mynth({ apiKey: "mak_test" });
+
+    // Act
+    await mynth.generate(
+      { prompt: "A cat", model: { requires: ["steps", "negative_prompt"] } },
+      { mode: "async" },
+    );
+
+    // Assert
+    expect(JSON.parse(fetchMock.mock.calls[0]?.[1].body)).toEqual({
+      prompt: "A cat",
+      model: "john6666/bismuth-illustrious-mix",
+    });
+  });
+
+  test("throws MynthValidationError without sending the request when no model matches", async () => {
+    // Arrange
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const mynth = new Mynth({ apiKey: "mak_test" });
+
+    // Act & Assert
+    await expect(
+      mynth.generate(
+        { prompt: "A cat", model: { requires: ["inputs", "negative_prompt"] } },
+        { mode: "async" },
+      ),
+    ).rejects.toMatchObject({
+      name: "MynthValidationError",
+      issues: [{ path: ["model"], code: "no_matching_model" }],
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,201 @@
+import type { MynthClient, MynthRequestOptions } from "./client";
+import { createAPIError, MynthAPIError, MynthNetworkError, MynthTimeoutError } from "./client";
+import { AVAILABLE_MODELS, MODELS_PATH } from "./constants";
+import type { MynthSDKTypes } from "./types";
+
+/** Default time the model catalog is cached for, in milliseconds */
+export const DEFAULT_MODEL_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Options for listing models.
+ */
+export type ListModelsOptions = {
+  /** Fetches the catalog even if a cached one hasn't expired yet */
+  refresh?: boolean;
+};
+
+/**
+ * The bundled `AVAILABLE_MODELS`, used when the catalog can't be fetched.
+ */
+function getBundledModels(): MynthSDKTypes.ModelData[] {
+  return AVAILABLE_MODELS.map(({ id, label, capabilities }) => ({ id, label, capabilities }));
+}
+
+/**
+ * Whether an error means the catalog is temporarily unavailable, rather than that the request
+ * itself was wrong (e.g. an invalid API key), which the caller should see.
+ */
+function isCatalogUnavailable(error: unknown): boolean {
+  return (
+    error instanceof MynthNetworkError ||
+    error instanceof MynthTimeoutError ||
+    (error instanceof MynthAPIError && error.status >= 500)
+  );
+}
+
+/**
+ * Access to the live model catalog. Available as `mynth.models`.
+ */
+export class MynthModels {
+  private readonly client: MynthClient;
+  private readonly cacheTtlMs: number;
+
+  /** Fetched catalogs by API key, `""` being the client's own */
+  private readonly cache = new Map<
+    string,
+    { models: MynthSDKTypes.ModelData[]; expiresAt: number }
+  >();
+
+  /** Pending catalog requests by API key, shared by concurrent calls */
+  private readonly pending = new Map<string, Promise<MynthSDKTypes.ModelData[]>>();
+
+  /** @internal */
+  constructor(options: { client: MynthClient; cacheTtlMs?: number }) {
+    this.client = options.client;
+    this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_MODEL_CACHE_TTL_MS;
+  }
+
+  /**
+   * Lists the models currently available from the API, with labels, capabilities,
+   * pricing hints and supported sizes. The catalog is cached for `modelCacheTtlMs`.
+   *
+   * If the API can't be reached, times out or fails with a 5xx status, returns the last fetched
+   * catalog, or the bundled `AVAILABLE_MODELS` (without pricing and sizes) if there is none.
+   * Fallbacks aren't cached, so the next call tries the API again.
+   *
+   * Catalogs are cached per API key, and concurrent calls with the same key share one request,
+   * sent with the first call's headers and timeout. Calls with a `signal` always send their own.
+   *
+   * @param options - List options
+   * @param requestOptions - Per-call headers, API key, timeout and signal
+   * @returns The available models
+   * @throws {MynthAPIError} If the API rejects the request, e.g. with an invalid API key
+   *
+   * @example
+   * ```typescript
+   * const models = await mynth.models.list();
+   * const options = models.map((model) => ({ value: model.id, label: model.label }));
+   * ```
+   */
+  public async list(
+    options: ListModelsOptions = {},
+    requestOptions?: MynthRequestOptions,
+  ): Promise<MynthSDKTypes.ModelData[]> {
+    const key = requestOptions?.apiKey ?? "";
+    const cached = this.cache.get(key);
+    if (!options.refresh && cached && Date.now() < cached.expiresAt) {
+      return cached.models;
+    }
+
+    try {
+      // A shared request could be aborted by another caller, so calls with a signal don't share
+      return await (requestOptions?.signal
+        ? this.fetchModels(key, requestOptions)
+        : this.fetchModelsShared(key, requestOptions));
+    } catch (error) {
+      if (!isCatalogUnavailable(error)) throw error;
+      return this.cache.get(key)?.models ?? getBundledModels();
+    }
+  }
+
+  /**
+   * Checks whether a model is currently available, using the cached catalog when possible.
+   * `"auto"` is always available.
+   *
+   * @param id - Model id
+   * @returns Whether the model is in the catalog
+   *
+   * @example
+   * ```typescript
+   * if (!(await mynth.models.isModelAvailable(user.preferredModel))) {
+   *   user.preferredModel = "auto";
+   * }
+   * ```
+   */
+  public async isModelAvailable(id: string): Promise<boolean> {
+    if (id === "auto") return true;
+
+    const models = await this.list();
+    return models.some((model) => model.id === id);
+  }
+
+  private fetchModelsShared(
+    key: string,
+    requestOptions?: MynthRequestOptions,
+  ): Promise<MynthSDKTypes.ModelData[]> {
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.fetchModels(key, requestOptions).finally(() => {
+        this.pending.delete(key);
+      });
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async fetchModels(
+    key: string,
+    requestOptions?: MynthRequestOptions,
+  ): Promise<MynthSDKTypes.ModelData[]> {
+    const response = await this.client.get<MynthSDKTypes.ModelListResponse>(
+      MODELS_PATH,
+      requestOptions,
+    );
+
+    if (!response.ok) {
+      throw createAPIError(response);
+    }
+
+    this.cache.set(key, { models: response.data.data, expiresAt: Date.now() + this.cacheTtlMs });
+    return response.data.data;
+  }
+}
+
+/**
+ * A model from `AVAILABLE_MODELS`, other than `"auto"`.
+ */
+export type AvailableModelEntry = Exclude<(typeof AVAILABLE_MODELS)[number], { id: "auto" }>;
+
+/**
+ * Finds the bundled models that have every required capability and none of the
+ * excluded ones, in the order of `AVAILABLE_MODELS`. `"auto"` is never returned.
+ *
+ * @param selector - Required and excluded capabilities
+ * @returns The matching models, in preference order
+ *
+ * @example
+ * ```typescript
+ * const models = findModels({ requires: ["inputs", "custom_resolution"] });
+ * ```
+ */
+export function findModels(selector: MynthSDKTypes.ModelSelector): AvailableModelEntry[] {
+  const { requires, excludes = [] } = selector;
+
+  return AVAILABLE_MODELS.filter((model): model is AvailableModelEntry => {
+    if (model.id === "auto") return false;
+
+    const capabilities: readonly string[] = model.capabilities;
+    return (
+      requires.every((capability) => capabilities.includes(capability)) &&
+      !excludes.some((capability) => capabilities.includes(capability))
+    );
+  });
+}
+
+/**
+ * Picks the preferred bundled model with every required capability and none of the
+ * excluded ones: the first match in `AVAILABLE_MODELS`.
+ *
+ * @param selector - Required and excluded capabilities
+ * @returns The model id, or undefined if no model matches
+ *
+ * @example
+ * ```typescript
+ * const model = pickModel({ requires: ["negative_prompt"] }) ?? "auto";
+ * ```
+ */
+export function pickModel(
+  selector: MynthSDKTypes.ModelSelector,
+): MynthSDKTypes.ImageGenerationModelId | undefined {
+  return findModels(selector)[0]?.id;
+}
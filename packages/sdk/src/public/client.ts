@@ -0,0 +1,54 @@
+import type { PollingStrategy } from "../task-async";
+import { TaskAsync } from "../task-async";
+import type { MynthSDKTypes } from "../types";
+
+/**
+ * Configuration options for the public client.
+ */
+export type MynthPublicClientOptions = {
+  /** Custom base URL for the API */
+  baseUrl?: string;
+  /** Default polling strategy for waiting on tasks */
+  polling?: PollingStrategy;
+};
+
+/**
+ * Browser-safe client for tasks created on your server. Authenticates with the task's
+ * public access token only, so no API key is needed.
+ *
+ * @example
+ * ```typescript
+ * import { MynthPublicClient } from "@mynthio/sdk/public";
+ *
+ * const mynth = new MynthPublicClient();
+ *
+ * // `id` and `access` returned by your server from `mynth.generate(..., { mode: "async" })`
+ * const task = await mynth.task(id, access).toTask();
+ * console.log(task.urls);
+ * ```
+ */
+export class MynthPublicClient {
+  private readonly options: MynthPublicClientOptions;
+
+  constructor(options: MynthPublicClientOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Gets a task by its id and public access token.
+   *
+   * @param id - Task id
+   * @param access - Public access information returned when the task was created
+   * @returns A TaskAsync that polls with the public access token only
+   */
+  public task<
+    MetadataT = Record<string, unknown> | undefined,
+    ContentRatingT = MynthSDKTypes.ImageResultContentRating | undefined,
+  >(id: string, access: { publicAccessToken: string }): TaskAsync<MetadataT, ContentRatingT> {
+    return TaskAsync.fromAccess<MetadataT, ContentRatingT>(id, {
+      publicAccessToken: access.publicAccessToken,
+      baseUrl: this.options.baseUrl,
+      polling: this.options.polling,
+    });
+  }
+}
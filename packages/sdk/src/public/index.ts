@@ -0,0 +1,24 @@
+export { Task } from "../task";
+export {
+  DEFAULT_POLLING_STRATEGY,
+  TaskAsync,
+  TaskAsyncAbortedError,
+  TaskAsyncFetchError,
+  TaskAsyncTaskFailedError,
+  TaskAsyncTaskFetchError,
+  TaskAsyncTimeoutError,
+  TaskAsyncUnauthorizedError,
+} from "../task-async";
+export type {
+  PollingIntervalFunction,
+  PollingPhase,
+  PollingStrategy,
+  TaskAsyncAccess,
+  TaskAsyncFromAccessOptions,
+  TaskAsyncPollEvent,
+  TaskAsyncUpdate,
+  TaskAsyncWaitOptions,
+} from "../task-async";
+export type { MynthSDKTypes } from "../types";
+export { MynthPublicClient } from "./client";
+export type { MynthPublicClientOptions } from "./client";
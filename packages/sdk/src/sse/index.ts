@@ -0,0 +1,4 @@
+export { readTaskEventStream, TaskEventStreamError } from "./reader";
+export type { ReadTaskEventStreamOptions } from "./reader";
+export { createTaskEventStream } from "./stream";
+export type { CreateTaskEventStreamOptions, TaskEventStreamAccess } from "./stream";
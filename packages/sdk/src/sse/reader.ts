@@ -0,0 +1,110 @@
+import { Task } from "../task";
+import type { TaskAsyncUpdate } from "../task-async";
+import type { MynthSDKTypes } from "../types";
+import {
+  parseServerSentEvents,
+  TASK_EVENT_COMPLETED,
+  TASK_EVENT_ERROR,
+  TASK_EVENT_STATUS,
+} from "./utils";
+
+/**
+ * Error thrown when a task event stream fails, or reports that the task failed.
+ */
+export class TaskEventStreamError extends Error {
+  /** Name of the error reported by the stream, e.g. `TaskAsyncTaskFailedError` */
+  public readonly errorName?: string;
+
+  constructor(message: string, errorName?: string) {
+    super(message);
+    this.name = "TaskEventStreamError";
+    this.errorName = errorName;
+  }
+}
+
+/**
+ * Parses the JSON data of a stream event.
+ *
+ * @throws {TaskEventStreamError} If the data isn't valid JSON
+ */
+function parseEventData<T>(event: string, data: string): T {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    throw new TaskEventStreamError(`Task event stream sent invalid JSON in a "${event}" event`);
+  }
+}
+
+/**
+ * Options for reading a task event stream.
+ */
+export type ReadTaskEventStreamOptions = {
+  /** Aborts the request when `input` is a URL. Defaults to `init.signal`. */
+  signal?: AbortSignal;
+  /** Request options used when `input` is a URL */
+  init?: RequestInit;
+};
+
+/**
+ * Reads a task event stream created by `createTaskEventStream`, yielding each status
+ * transition and finishing with the completed Task. Works in browsers.
+ *
+ * @param input - The stream response, or the URL to fetch it from
+ * @param options - Reader options
+ * @throws {TaskEventStreamError} If the request fails, the task fails, or the stream ends early
+ *
+ * @example
+ * ```typescript
+ * import { readTaskEventStream } from "@mynthio/sdk/sse";
+ *
+ * for await (const update of readTaskEventStream(`/api/tasks/${id}/events`)) {
+ *   if (update.type === "status") setStatus(update.status);
+ *   else setImages(update.task.urls);
+ * }
+ * ```
+ */
+export async function* readTaskEventStream<
+  MetadataT = Record<string, unknown> | undefined,
+  ContentRatingT = MynthSDKTypes.ImageResultContentRating | undefined,
+>(
+  input: Response | string | URL,
+  options: ReadTaskEventStreamOptions = {},
+): AsyncGenerator<TaskAsyncUpdate<MetadataT, ContentRatingT>, void, undefined> {
+  let response: Response;
+  if (input instanceof Response) {
+    response = input;
+  } else {
+    const headers = new Headers(options.init?.headers);
+    headers.set("Accept", "text/event-stream");
+
+    response = await fetch(input, {
+      ...options.init,
+      headers,
+      signal: options.signal ?? options.init?.signal,
+    });
+  }
+
+  if (!response.ok || !response.body) {
+    throw new TaskEventStreamError(
+      `Task event stream request failed with status ${response.status}`,
+    );
+  }
+
+  for await (const { event, data } of parseServerSentEvents(response.body)) {
+    if (event === TASK_EVENT_STATUS) {
+      const { status } = parseEventData<{ status: MynthSDKTypes.TaskStatus }>(event, data);
+      yield { type: "status", status };
+    } else if (event === TASK_EVENT_COMPLETED) {
+      yield {
+        type: "completed",
+        task: new Task(parseEventData<MynthSDKTypes.TaskData>(event, data)),
+      };
+      return;
+    } else if (event === TASK_EVENT_ERROR) {
+      const { name, message } = parseEventData<{ name?: string; message?: string }>(event, data);
+      throw new TaskEventStreamError(message ?? "Task event stream reported an error", name);
+    }
+  }
+
+  throw new TaskEventStreamError("Task event stream ended before the task completed");
+}
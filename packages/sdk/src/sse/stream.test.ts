@@ -0,0 +1,270 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+
+import type { MynthClient } from "../client";
+import { TaskAsync } from "../task-async";
+import type { MynthSDKTypes } from "../types";
+import { readTaskEventStream, TaskEventStreamError } from "./reader";
+import { createTaskEventStream } from "./stream";
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function createMockTaskData(
+  overrides: Partial<MynthSDKTypes.TaskData> = {},
+): MynthSDKTypes.TaskData {
+  return {
+    id: "sse-task",
+    status: "completed",
+    type: "image",
+    apiKeyId: "api-key-123",
+    userId: "user-123",
+    cost: "0.01",
+    result: null,
+    request: null,
+    createdAt: "2026-01-29T12:00:00Z",
+    updatedAt: "2026-01-29T12:00:00Z",
+    ...overrides,
+  };
+}
+
+function createTaskAsync(get: ReturnType<typeof vi.fn>): TaskAsync {
+  const client = { get } as unknown as MynthClient;
+  return new TaskAsync("sse-task", { client });
+}
+
+function createStreamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+        controller.close();
+      },
+    }),
+    { headers: { "Content-Type": "text/event-stream" } },
+  );
+}
+
+const FAST_POLLING = { interval: () => 0 };
+
+// ============================================================================
+// createTaskEventStream
+// ============================================================================
+
+describe("createTaskEventStream", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("streams status transitions followed by the completed task", async () => {
+    // Arrange
+    const taskData = createMockTaskData();
+    const mockGet = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "pending" } })
+      .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "completed" } })
+      .mockResolvedValueOnce({ ok: true, status: 200, data: taskData });
+
+    // Act
+    const response = createTaskEventStream(createTaskAsync(mockGet), { polling: FAST_POLLING });
+    const body = await response.text();
+
+    // Assert
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(body).toBe(
+      'event: status\ndata: {"status":"pending"}\n\n' +
+        'event: status\ndata: {"status":"completed"}\n\n' +
+        `event: completed\ndata: ${JSON.stringify(taskData)}\n\n`,
+    );
+  });
+
+  test("emits an error event when the task fails", async () => {
+    // Arrange
+    const mockGet = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      data: { status: "failed" },
+    });
+
+    // Act
+    const body = await createTaskEventStream(createTaskAsync(mockGet)).text();
+
+    // Assert
+    expect(body).toContain("event: task_error\n");
+    expect(body).toContain('"name":"TaskAsyncTaskFailedError"');
+  });
+
+  test("polls with the public access token when given a task id", async () => {
+    // Arrange
+    const fetchMock = vi.fn().mockResolvedValueOnce(Response.json({ status: "failed" }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    // Act
+    await createTaskEventStream({
+      id: "sse-task",
+      publicAccessToken: "pat_123",
+      baseUrl: "https://api.example.com",
+    }).text();
+
+    // Assert
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://api.example.com/tasks/sse-task/status");
+    expect(init.headers).toMatchObject({ Authorization: "Bearer pat_123" });
+  });
+
+  test("stops polling when the response stream is cancelled", async () => {
+    // Arrange
+    const mockGet = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      data: { status: "pending" },
+    });
+    const response = createTaskEventStream(createTaskAsync(mockGet), {
+      polling: { interval: () => 10 },
+    });
+    const reader = response.body!.getReader();
+    await reader.read();
+
+    // Act
+    await reader.cancel();
+    const callsAtCancel = mockGet.mock.calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    // Assert
+    expect(mockGet).toHaveBeenCalledTimes(callsAtCancel);
+  });
+});
+
+// ============================================================================
+// readTaskEventStream
+// ============================================================================
+
+describe("readTaskEventStream", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("yields status updates and a typed Task from a stream response", async () => {
+    // Arrange
+    const taskData = createMockTaskData();
+    const mockGet = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "pending" } })
+      .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "completed" } })
+      .mockResolvedValueOnce({ ok: true, status: 200, data: taskData });
+    const response = createTaskEventStream(createTaskAsync(mockGet), { polling: FAST_POLLING });
+    const updates: unknown[] = [];
+
+    // Act
+    for await (const update of readTaskEventStream(response)) {
+      updates.push(update.type === "status" ? update.status : update.task.id);
+    }
+
+    // Assert
+    expect(updates).toEqual(["pending", "completed", "sse-task"]);
+  });
+
+  test("parses events split across chunks and ignores comments", async () => {
+    // Arrange
+    const taskData = createMockTaskData();
+    const response = createStreamResponse([
+      ": keep-alive\n\nevent: sta",
+      'tus\ndata: {"status":"pending"}\r\n\r\n',
+      `event: completed\ndata: ${JSON.stringify(taskData)}\n\n`,
+    ]);
+    const updates: string[] = [];
+
+    // Act
+    for await (const update of readTaskEventStream(response)) {
+      updates.push(update.type);
+    }
+
+    // Assert
+    expect(updates).toEqual(["status", "completed"]);
+  });
+
+  test("throws TaskEventStreamError with the reported error name", async () => {
+    // Arrange
+    const response = createStreamResponse([
+      'event: task_error\ndata: {"name":"TaskAsyncTaskFailedError","message":"Task failed"}\n\n',
+    ]);
+
+    // Act
+    const reading = (async () => {
+      for await (const _update of readTaskEventStream(response)) {
+        // Drain
+      }
+    })();
+
+    // Assert
+    await expect(reading).rejects.toMatchObject({
+      name: "TaskEventStreamError",
+      errorName: "TaskAsyncTaskFailedError",
+      message: "Task failed",
+    });
+  });
+
+  test("throws when the stream ends before the task completes", async () => {
+    // Arrange
+    const response = createStreamResponse(['event: status\ndata: {"status":"pending"}\n\n']);
+
+    // Act
+    const reading = (async () => {
+      for await (const _update of readTaskEventStream(response)) {
+        // Drain
+      }
+    })();
+
+    // Assert
+    await expect(reading).rejects.toThrow(TaskEventStreamError);
+  });
+
+  test("fetches the stream when given a URL and throws on error responses", async () => {
+    // Arrange
+    const fetchMock = vi.fn().mockResolvedValue(new Response("Not found", { status: 404 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    // Act
+    const reading = readTaskEventStream("https://app.example.com/api/tasks/sse-task/events").next();
+
+    // Assert
+    await expect(reading).rejects.toThrow("status 404");
+    expect(fetchMock.mock.calls[0]?.[0]).toBe("https://app.example.com/api/tasks/sse-task/events");
+    expect(fetchMock.mock.calls[0]?.[1].headers.get("Accept")).toBe("text/event-stream");
+  });
+
+  test("keeps headers and the signal from init", async () => {
+    // Arrange
+    const fetchMock = vi.fn().mockResolvedValue(new Response("Not found", { status: 404 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const controller = new AbortController();
+
+    // Act
+    await readTaskEventStream("/api/tasks/sse-task/events", {
+      init: {
+        headers: new Headers({ Authorization: "Bearer token" }),
+        signal: controller.signal,
+      },
+    })
+      .next()
+      .catch(() => {});
+
+    // Assert
+    const init = fetchMock.mock.calls[0]?.[1];
+    expect(init.headers.get("Authorization")).toBe("Bearer token");
+    expect(init.headers.get("Accept")).toBe("text/event-stream");
+    expect(init.signal).toBe(controller.signal);
+  });
+
+  test("throws TaskEventStreamError on invalid event data", async () => {
+    // Arrange
+    const response = createStreamResponse(["event: status\ndata: {not json\n\n"]);
+
+    // Act
+    const reading = readTaskEventStream(response).next();
+
+    // Assert
+    await expect(reading).rejects.toThrow(TaskEventStreamError);
+  });
+});
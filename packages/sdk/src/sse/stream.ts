@@ -0,0 +1,125 @@
+import type { PollingStrategy } from "../task-async";
+import { TaskAsync } from "../task-async";
+import {
+  formatServerSentEvent,
+  TASK_EVENT_COMPLETED,
+  TASK_EVENT_ERROR,
+  TASK_EVENT_STATUS,
+} from "./utils";
+
+/**
+ * A task to stream, identified by its id and public access token.
+ */
+export type TaskEventStreamAccess = {
+  /** Task id */
+  id: string;
+  /** Public access token returned when the task was created */
+  publicAccessToken: string;
+  /** Custom base URL for the API */
+  baseUrl?: string;
+};
+
+/**
+ * Options for creating a task event stream.
+ */
+export type CreateTaskEventStreamOptions = {
+  /** Stops streaming when aborted, e.g. `request.signal` */
+  signal?: AbortSignal;
+  /** Polling strategy for the underlying `TaskAsync` */
+  polling?: PollingStrategy;
+  /** Additional response headers */
+  headers?: Record<string, string>;
+};
+
+/**
+ * Creates a Server-Sent Events response that streams a task's progress, so browsers get
+ * live updates while the API key stays on the server.
+ *
+ * Emits a `status` event (`{ status }`) on each status transition, then either a
+ * `completed` event with the full task data or a `task_error` event (`{ name, message }`),
+ * and closes. Read it in the browser with `readTaskEventStream`.
+ *
+ * @param source - A `TaskAsync`, or a task id with its public access token
+ * @param options - Stream options
+ * @returns A `text/event-stream` response
+ *
+ * @example
+ * ```typescript
+ * // app/api/generate/route.ts
+ * export async function POST(request: Request) {
+ *   const { prompt } = await request.json();
+ *   const taskAsync = await mynth.generate({ prompt }, { mode: "async" });
+ *
+ *   return createTaskEventStream(taskAsync, { signal: request.signal });
+ * }
+ * ```
+ */
+export function createTaskEventStream(
+  source: TaskAsync | TaskEventStreamAccess,
+  options: CreateTaskEventStreamOptions = {},
+): Response {
+  const taskAsync =
+    source instanceof TaskAsync
+      ? source
+      : TaskAsync.fromAccess(source.id, {
+          publicAccessToken: source.publicAccessToken,
+          baseUrl: source.baseUrl,
+        });
+
+  const controller = new AbortController();
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      const abort = () => controller.abort(options.signal?.reason);
+
+      if (options.signal?.aborted) {
+        abort();
+      }
+      options.signal?.addEventListener("abort", abort, { once: true });
+
+      const send = (event: string, data: unknown) => {
+        streamController.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+      };
+
+      // Not awaited, so the response is returned while the task is being polled
+      void (async () => {
+        try {
+          for await (const update of taskAsync.watch({
+            signal: controller.signal,
+            polling: options.polling,
+          })) {
+            if (update.type === "status") {
+              send(TASK_EVENT_STATUS, { status: update.status });
+            } else {
+              send(TASK_EVENT_COMPLETED, update.task.data);
+            }
+          }
+        } catch (error) {
+          if (!controller.signal.aborted) {
+            const { name, message } = error instanceof Error ? error : new Error(String(error));
+            send(TASK_EVENT_ERROR, { name, message });
+          }
+        } finally {
+          options.signal?.removeEventListener("abort", abort);
+          if (!cancelled) {
+            streamController.close();
+          }
+        }
+      })();
+    },
+    cancel(reason) {
+      cancelled = true;
+      controller.abort(reason);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      ...options.headers,
+    },
+  });
+}
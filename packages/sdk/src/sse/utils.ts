@@ -0,0 +1,79 @@
+// Task event stream event names
+export const TASK_EVENT_STATUS = "status";
+export const TASK_EVENT_COMPLETED = "completed";
+// Not `error`, which EventSource also fires when the connection drops
+export const TASK_EVENT_ERROR = "task_error";
+
+/**
+ * A parsed Server-Sent Event.
+ * @internal
+ */
+export type ServerSentEvent = {
+  event: string;
+  data: string;
+};
+
+/**
+ * Formats a Server-Sent Event with a JSON `data` field.
+ * @internal
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parses a Server-Sent Events body into events. Comments and `id`/`retry` fields are ignored.
+ * Stopping iteration early cancels the body.
+ * @internal
+ */
+export async function* parseServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent, void, undefined> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finished = false;
+
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      finished = done;
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      // The last block is incomplete until the stream ends
+      buffer = done ? "" : (blocks.pop() ?? "");
+
+      for (const block of blocks) {
+        const event = parseServerSentEventBlock(block);
+        if (event) yield event;
+      }
+    }
+  } finally {
+    if (!finished) {
+      await reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+}
+
+function parseServerSentEventBlock(block: string): ServerSentEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) continue;
+
+    const separatorIndex = line.indexOf(":");
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    const value = separatorIndex === -1 ? "" : line.slice(separatorIndex + 1).replace(/^ /, "");
+
+    if (field === "event") {
+      event = value;
+    } else if (field === "data") {
+      data.push(value);
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join("\n") } : null;
+}
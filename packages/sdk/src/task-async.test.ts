@@ -1,8 +1,12 @@
 import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
 
-import type { MynthClient } from "./client";
+import { DEFAULT_RETRY_POLICY, MynthClient } from "./client";
+import { Mynth } from "./index";
 import {
+  DEFAULT_POLLING_STRATEGY,
+  resolvePollingStrategy,
   TaskAsync,
+  TaskAsyncAbortedError,
   TaskAsyncFetchError,
   TaskAsyncTaskFailedError,
   TaskAsyncTaskFetchError,
@@ -22,6 +26,7 @@ function createMockClient(
 ): MynthClient {
   return {
     get: overrides.get ?? vi.fn(),
+    isRetryableStatus: (status: number) => DEFAULT_RETRY_POLICY.retryableStatuses.includes(status),
   } as unknown as MynthClient;
 }
 
@@ -176,6 +181,21 @@ describe("TaskAsyncTaskFailedError", () => {
   });
 });
 
+describe("TaskAsyncAbortedError", () => {
+  test("includes task id in message and preserves the abort reason as cause", () => {
+    // Arrange
+    const reason = new Error("User navigated away");
+
+    // Act
+    const error = new TaskAsyncAbortedError("task-aborted-123", reason);
+
+    // Assert
+    expect(error.message).toContain("task-aborted-123");
+    expect(error.cause).toBe(reason);
+    expect(error.name).toBe("TaskAsyncAbortedError");
+  });
+});
+
 // ============================================================================
 // TaskAsync Class - Basic Properties
 // ============================================================================
@@ -578,6 +598,624 @@ describe("TaskAsync", () => {
     });
   });
 
+  // ==========================================================================
+  // Cancellation - toTask({ signal })
+  // ==========================================================================
+
+  describe("toTask() cancellation", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test("rejects immediately without polling when the signal is already aborted", async () => {
+      // Arrange
+      const mockGet = vi.fn();
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("pre-aborted-task", { client });
+
+      // Act & Assert
+      await expect(taskAsync.toTask({ signal: AbortSignal.abort() })).rejects.toThrow(
+        TaskAsyncAbortedError,
+      );
+      expect(mockGet).not.toHaveBeenCalled();
+    });
+
+    test("stops polling when the only waiter aborts", async () => {
+      // Arrange
+      const mockGet = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        data: { status: "pending" },
+      });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("aborted-task", { client });
+      const controller = new AbortController();
+
+      // Act
+      const taskPromise = taskAsync.toTask({ signal: controller.signal });
+      const rejectionExpectation = expect(taskPromise).rejects.toThrow(TaskAsyncAbortedError);
+      await vi.advanceTimersByTimeAsync(3000);
+      controller.abort();
+      await rejectionExpectation;
+      const callsAtAbort = mockGet.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      // Assert
+      expect(mockGet).toHaveBeenCalledTimes(callsAtAbort);
+      expect(mockGet).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ signal: expect.any(AbortSignal) }),
+      );
+    });
+
+    test("keeps polling for other waiters when one caller aborts", async () => {
+      // Arrange
+      const taskData = createMockTaskData({ id: "shared-task" });
+      const mockGet = vi
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          data: { status: "pending" },
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          data: { status: "completed" },
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          data: taskData,
+        });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("shared-task", { client });
+      const controller = new AbortController();
+
+      // Act
+      const abortedPromise = taskAsync.toTask({ signal: controller.signal });
+      const abortedExpectation = expect(abortedPromise).rejects.toThrow(TaskAsyncAbortedError);
+      const otherPromise = taskAsync.toTask();
+      controller.abort();
+      await abortedExpectation;
+      await vi.advanceTimersByTimeAsync(3000);
+      const task = await otherPromise;
+
+      // Assert
+      expect(task.id).toBe("shared-task");
+    });
+
+    test("restarts polling on a new toTask() call after every waiter aborted", async () => {
+      // Arrange
+      const taskData = createMockTaskData({ id: "restarted-task" });
+      const mockGet = vi
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          data: { status: "pending" },
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          data: { status: "completed" },
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          data: taskData,
+        });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("restarted-task", { client });
+      const controller = new AbortController();
+
+      // Act
+      const abortedPromise = taskAsync.toTask({ signal: controller.signal });
+      const abortedExpectation = expect(abortedPromise).rejects.toThrow(TaskAsyncAbortedError);
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort();
+      await abortedExpectation;
+      const task = await taskAsync.toTask();
+
+      // Assert
+      expect(task.id).toBe("restarted-task");
+    });
+
+    test("stops a restarted loop when its last waiter aborts while the old loop winds down", async () => {
+      // Arrange
+      const mockGet = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        data: { status: "pending" },
+      });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("rejoined-task", { client });
+      const firstController = new AbortController();
+      const secondController = new AbortController();
+
+      // Act
+      const firstPromise = taskAsync.toTask({ signal: firstController.signal });
+      const firstExpectation = expect(firstPromise).rejects.toThrow(TaskAsyncAbortedError);
+      await vi.advanceTimersByTimeAsync(0);
+      firstController.abort();
+      // Joins before the abandoned loop has rejected
+      const secondPromise = taskAsync.toTask({ signal: secondController.signal });
+      const secondExpectation = expect(secondPromise).rejects.toThrow(TaskAsyncAbortedError);
+      await firstExpectation;
+      await vi.advanceTimersByTimeAsync(0);
+      secondController.abort();
+      await secondExpectation;
+      const callsAtAbort = mockGet.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      // Assert
+      expect(mockGet).toHaveBeenCalledTimes(callsAtAbort);
+    });
+  });
+
+  // ==========================================================================
+  // Polling Strategy
+  // ==========================================================================
+
+  describe("polling strategy", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test("resolvePollingStrategy() merges strategies field by field over the defaults", () => {
+      // Arrange & Act
+      const resolved = resolvePollingStrategy({ timeoutMs: 60_000, maxRetries: 2 }, undefined, {
+        timeoutMs: 10_000,
+        jitterMs: 0,
+      });
+
+      // Assert
+      expect(resolved).toEqual({
+        timeoutMs: 10_000,
+        interval: DEFAULT_POLLING_STRATEGY.interval,
+        jitterMs: 0,
+        maxRetries: 2,
+      });
+    });
+
+    test("uses the timeout from the constructor strategy", async () => {
+      // Arrange
+      const mockGet = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        data: { status: "pending" },
+      });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("long-task", {
+        client,
+        polling: { timeoutMs: 1000 * 60 * 20 },
+      });
+
+      // Act
+      const taskPromise = taskAsync.toTask();
+      const rejectionExpectation = expect(taskPromise).rejects.toThrow("1200000ms");
+      await vi.advanceTimersByTimeAsync(1000 * 60 * 6);
+      const callsAfterDefaultTimeout = mockGet.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(1000 * 60 * 15);
+
+      // Assert
+      await rejectionExpectation;
+      expect(callsAfterDefaultTimeout).toBeGreaterThan(0);
+      expect(mockGet.mock.calls.length).toBeGreaterThan(callsAfterDefaultTimeout);
+    });
+
+    test("per-call strategy overrides the constructor strategy", async () => {
+      // Arrange
+      const mockGet = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        data: { status: "pending" },
+      });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("preview-task", {
+        client,
+        polling: { timeoutMs: 1000 * 60 * 20 },
+      });
+
+      // Act
+      const taskPromise = taskAsync.toTask({ polling: { timeoutMs: 5_000 } });
+      const rejectionExpectation = expect(taskPromise).rejects.toThrow(TaskAsyncTimeoutError);
+      await vi.advanceTimersByTimeAsync(6_000);
+
+      // Assert
+      await rejectionExpectation;
+    });
+
+    test("follows the phase schedule without jitter", async () => {
+      // Arrange
+      const mockGet = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        data: { status: "pending" },
+      });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("phased-task", { client });
+
+      // Act
+      const taskPromise = taskAsync.toTask({
+        polling: {
+          interval: [{ untilMs: 1_000, intervalMs: 250 }, { intervalMs: 1_000 }],
+          jitterMs: 0,
+          timeoutMs: 3_000,
+        },
+      });
+      const rejectionExpectation = expect(taskPromise).rejects.toThrow(TaskAsyncTimeoutError);
+      await vi.advanceTimersByTimeAsync(3_000);
+
+      // Assert - polls at 0, 250, 500, 750, then 1000, 2000
+      await rejectionExpectation;
+      expect(mockGet).toHaveBeenCalledTimes(6);
+    });
+
+    test("calls the interval function with the attempt and elapsed time", async () => {
+      // Arrange
+      const taskData = createMockTaskData({ id: "custom-interval-task" });
+      const mockGet = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "pending" } })
+        .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "pending" } })
+        .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "completed" } })
+        .mockResolvedValueOnce({ ok: true, status: 200, data: taskData });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("custom-interval-task", { client });
+      const interval = vi.fn((attempt: number) => attempt * 100);
+
+      // Act
+      const taskPromise = taskAsync.toTask({ polling: { interval } });
+      await vi.advanceTimersByTimeAsync(300);
+      const task = await taskPromise;
+
+      // Assert
+      expect(task.id).toBe("custom-interval-task");
+      expect(interval.mock.calls).toEqual([
+        [1, 0],
+        [2, 100],
+      ]);
+    });
+
+    test("throws TaskAsyncFetchError once the retry budget is spent", async () => {
+      // Arrange
+      const mockGet = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 503,
+        data: { error: "Service unavailable" },
+      });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("low-retry-task", { client });
+
+      // Act
+      const taskPromise = taskAsync.toTask({ polling: { maxRetries: 2 } });
+      const rejectionExpectation = expect(taskPromise).rejects.toThrow(TaskAsyncFetchError);
+      await vi.advanceTimersByTimeAsync(10_000);
+
+      // Assert
+      await rejectionExpectation;
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  // ==========================================================================
+  // Progress Callbacks - toTask({ onStatus, onPoll })
+  // ==========================================================================
+
+  describe("toTask() progress callbacks", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test("calls onPoll after every status request and onStatus on changes", async () => {
+      // Arrange
+      const taskData = createMockTaskData({ id: "progress-task" });
+      const mockGet = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "pending" } })
+        .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "pending" } })
+        .mockResolvedValueOnce({ ok: false, status: 502, data: { error: "Bad gateway" } })
+        .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "completed" } })
+        .mockResolvedValueOnce({ ok: true, status: 200, data: taskData });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("progress-task", { client });
+      const onPoll = vi.fn();
+      const onStatus = vi.fn();
+
+      // Act
+      const taskPromise = taskAsync.toTask({
+        onPoll,
+        onStatus,
+        polling: { interval: () => 100 },
+      });
+      await vi.advanceTimersByTimeAsync(300);
+      await taskPromise;
+
+      // Assert
+      expect(onPoll).toHaveBeenCalledTimes(4);
+      expect(onPoll.mock.calls.map(([event]) => [event.attempt, event.httpStatus])).toEqual([
+        [1, 200],
+        [2, 200],
+        [3, 502],
+        [4, 200],
+      ]);
+      expect(onPoll).toHaveBeenNthCalledWith(3, {
+        attempt: 3,
+        elapsedMs: 200,
+        httpStatus: 502,
+        status: undefined,
+        usedApiKeyFallback: false,
+        error: undefined,
+      });
+      expect(onStatus.mock.calls.map(([status]) => status)).toEqual(["pending", "completed"]);
+    });
+
+    test("reports the network error and a missing HTTP status for failed requests", async () => {
+      // Arrange
+      const networkError = new Error("ECONNRESET");
+      const taskData = createMockTaskData({ id: "network-progress-task" });
+      const mockGet = vi
+        .fn()
+        .mockRejectedValueOnce(networkError)
+        .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "completed" } })
+        .mockResolvedValueOnce({ ok: true, status: 200, data: taskData });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("network-progress-task", { client });
+      const onPoll = vi.fn();
+
+      // Act
+      const taskPromise = taskAsync.toTask({ onPoll });
+      await vi.advanceTimersByTimeAsync(3000);
+      await taskPromise;
+
+      // Assert
+      expect(onPoll.mock.calls[0][0]).toMatchObject({
+        attempt: 1,
+        httpStatus: undefined,
+        error: networkError,
+      });
+    });
+
+    test("flags requests made after the PAT-to-API-key fallback", async () => {
+      // Arrange
+      const taskData = createMockTaskData({ id: "fallback-progress-task" });
+      const mockGet = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 401, data: { error: "Invalid token" } })
+        .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "completed" } })
+        .mockResolvedValueOnce({ ok: true, status: 200, data: taskData });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("fallback-progress-task", { client, pat: "pat_expired" });
+      const onPoll = vi.fn();
+
+      // Act
+      await taskAsync.toTask({ onPoll });
+
+      // Assert
+      expect(onPoll.mock.calls.map(([event]) => event.usedApiKeyFallback)).toEqual([false, true]);
+    });
+
+    test("calls onStatus immediately with the known status when joining a polling loop", async () => {
+      // Arrange
+      const mockGet = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        data: { status: "pending" },
+      });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("joined-task", { client });
+      const controller = new AbortController();
+      const firstPromise = taskAsync.toTask({ signal: controller.signal });
+      const firstExpectation = expect(firstPromise).rejects.toThrow(TaskAsyncAbortedError);
+      await vi.advanceTimersByTimeAsync(0);
+      const onStatus = vi.fn();
+
+      // Act
+      const secondPromise = taskAsync.toTask({ signal: controller.signal, onStatus });
+      const secondExpectation = expect(secondPromise).rejects.toThrow(TaskAsyncAbortedError);
+      controller.abort();
+
+      // Assert
+      await firstExpectation;
+      await secondExpectation;
+      expect(onStatus).toHaveBeenCalledWith("pending", expect.objectContaining({ attempt: 1 }));
+    });
+
+    test("ignores errors thrown by callbacks", async () => {
+      // Arrange
+      const taskData = createMockTaskData({ id: "throwing-callback-task" });
+      const mockGet = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "completed" } })
+        .mockResolvedValueOnce({ ok: true, status: 200, data: taskData });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("throwing-callback-task", { client });
+
+      // Act
+      const task = await taskAsync.toTask({
+        onPoll: () => {
+          throw new Error("UI crashed");
+        },
+      });
+
+      // Assert
+      expect(task.id).toBe("throwing-callback-task");
+    });
+  });
+
+  // ==========================================================================
+  // Watching - watch()
+  // ==========================================================================
+
+  describe("watch()", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test("yields each status transition and finishes with the completed task", async () => {
+      // Arrange
+      const taskData = createMockTaskData({ id: "watched-task" });
+      const mockGet = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "pending" } })
+        .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "pending" } })
+        .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "completed" } })
+        .mockResolvedValueOnce({ ok: true, status: 200, data: taskData });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("watched-task", { client });
+      const updates: unknown[] = [];
+
+      // Act
+      const watching = (async () => {
+        for await (const update of taskAsync.watch({ polling: { interval: () => 100 } })) {
+          updates.push(update.type === "status" ? update.status : update.task.id);
+        }
+      })();
+      await vi.advanceTimersByTimeAsync(200);
+      await watching;
+
+      // Assert
+      expect(updates).toEqual(["pending", "completed", "watched-task"]);
+    });
+
+    test("yields the failed status before throwing TaskAsyncTaskFailedError", async () => {
+      // Arrange
+      const mockGet = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        data: { status: "failed" },
+      });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("watched-failed-task", { client });
+      const statuses: string[] = [];
+
+      // Act
+      const watching = (async () => {
+        for await (const update of taskAsync.watch()) {
+          if (update.type === "status") statuses.push(update.status);
+        }
+      })();
+
+      // Assert
+      await expect(watching).rejects.toThrow(TaskAsyncTaskFailedError);
+      expect(statuses).toEqual(["failed"]);
+    });
+
+    test("stops polling when the consumer leaves the loop early", async () => {
+      // Arrange
+      const mockGet = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        data: { status: "pending" },
+      });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("watched-abandoned-task", { client });
+
+      // Act
+      for await (const update of taskAsync.watch()) {
+        if (update.type === "status") break;
+      }
+      const callsAtBreak = mockGet.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      // Assert
+      expect(callsAtBreak).toBe(1);
+      expect(mockGet).toHaveBeenCalledTimes(callsAtBreak);
+    });
+
+    test("throws TaskAsyncAbortedError when the signal is aborted", async () => {
+      // Arrange
+      const mockGet = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        data: { status: "pending" },
+      });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("watched-aborted-task", { client });
+      const controller = new AbortController();
+
+      // Act
+      const watching = (async () => {
+        for await (const update of taskAsync.watch({ signal: controller.signal })) {
+          if (update.type === "status") controller.abort();
+        }
+      })();
+
+      // Assert
+      await expect(watching).rejects.toThrow(TaskAsyncAbortedError);
+    });
+  });
+
+  // ==========================================================================
+  // Public Access - TaskAsync.fromAccess()
+  // ==========================================================================
+
+  describe("TaskAsync.fromAccess()", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    test("polls and fetches the task with only the public access token", async () => {
+      // Arrange
+      const taskData = createMockTaskData({ id: "public-task" });
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(Response.json({ status: "completed" }))
+        .mockResolvedValueOnce(Response.json(taskData));
+      vi.stubGlobal("fetch", fetchMock);
+      const taskAsync = TaskAsync.fromAccess("public-task", {
+        publicAccessToken: "pat_public",
+        baseUrl: "https://api.example.com",
+      });
+
+      // Act
+      const task = await taskAsync.toTask();
+
+      // Assert
+      expect(task.id).toBe("public-task");
+      expect(taskAsync.access.publicAccessToken).toBe("pat_public");
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        "https://api.example.com/tasks/public-task/status",
+        "https://api.example.com/tasks/public-task",
+      ]);
+      for (const [, init] of fetchMock.mock.calls) {
+        expect(init.headers).toEqual({ Authorization: "Bearer pat_public" });
+      }
+    });
+
+    test("throws TaskAsyncUnauthorizedError without falling back to an API key", async () => {
+      // Arrange
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(Response.json({ error: "Invalid token" }, { status: 401 }));
+      vi.stubGlobal("fetch", fetchMock);
+      const taskAsync = TaskAsync.fromAccess("expired-public-task", {
+        publicAccessToken: "pat_expired",
+      });
+
+      // Act & Assert
+      await expect(taskAsync.toTask()).rejects.toThrow(TaskAsyncUnauthorizedError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
   // ==========================================================================
   // Task Fetching Errors
   // ==========================================================================
@@ -691,6 +1329,77 @@ describe("TaskAsync", () => {
 
     afterEach(() => {
       vi.useRealTimers();
+      vi.unstubAllGlobals();
+    });
+
+    test("retries failed status requests only under the polling strategy's budget", async () => {
+      // Arrange
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => Response.json({ error: "Unavailable" }, { status: 503 }));
+      vi.stubGlobal("fetch", fetchMock);
+      const client = new MynthClient({ apiKey: "mak_test" });
+      const taskAsync = new TaskAsync("unavailable-task", { client });
+      const onPoll = vi.fn();
+
+      // Act
+      const taskPromise = taskAsync.toTask({ onPoll });
+      const rejectionExpectation = expect(taskPromise).rejects.toThrow(TaskAsyncFetchError);
+      await vi.advanceTimersByTimeAsync(60_000);
+      await rejectionExpectation;
+
+      // Assert
+      expect(fetchMock).toHaveBeenCalledTimes(DEFAULT_POLLING_STRATEGY.maxRetries);
+      expect(onPoll).toHaveBeenCalledTimes(DEFAULT_POLLING_STRATEGY.maxRetries);
+    });
+
+    test("counts statuses retried by the retry policy against the budget, waiting out Retry-After", async () => {
+      // Arrange
+      const taskData = createMockTaskData({ id: "rate-limited-task" });
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(
+          Response.json(
+            { error: "Too many requests" },
+            { status: 429, headers: { "Retry-After": "5" } },
+          ),
+        )
+        .mockResolvedValueOnce(Response.json({ status: "completed" }))
+        .mockResolvedValueOnce(Response.json(taskData));
+      vi.stubGlobal("fetch", fetchMock);
+      const client = new MynthClient({ apiKey: "mak_test" });
+      const taskAsync = new TaskAsync("rate-limited-task", { client });
+      const onPoll = vi.fn();
+
+      // Act
+      const taskPromise = taskAsync.toTask({ onPoll, polling: { interval: () => 100 } });
+      await vi.advanceTimersByTimeAsync(4_999);
+      const callsBeforeRetryAfter = fetchMock.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(1);
+      const task = await taskPromise;
+
+      // Assert
+      expect(task.id).toBe("rate-limited-task");
+      expect(callsBeforeRetryAfter).toBe(1);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    test("fails once statuses retried by the retry policy exhaust the budget", async () => {
+      // Arrange
+      const mockGet = vi
+        .fn()
+        .mockResolvedValue({ ok: false, status: 429, data: { error: "Too many requests" } });
+      const client = createMockClient({ get: mockGet });
+      const taskAsync = new TaskAsync("rate-limited-task", { client });
+
+      // Act
+      const taskPromise = taskAsync.toTask({ polling: { interval: () => 100 } });
+      const rejectionExpectation = expect(taskPromise).rejects.toThrow(TaskAsyncFetchError);
+      await vi.advanceTimersByTimeAsync(60_000);
+      await rejectionExpectation;
+
+      // Assert
+      expect(mockGet).toHaveBeenCalledTimes(DEFAULT_POLLING_STRATEGY.maxRetries);
     });
 
     test("resets retry count after successful poll", async () => {
@@ -789,3 +1498,60 @@ describe("TaskAsync", () => {
     });
   });
 });
+
+// ============================================================================
+// Mynth.generate() cancellation
+// ============================================================================
+
+describe("Mynth.generate() cancellation", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("rejects with TaskAsyncAbortedError when aborted during the generate request", async () => {
+    // Arrange
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () => reject(init.signal?.reason), {
+              once: true,
+            });
+          }),
+      ),
+    );
+    const mynth = new Mynth({ apiKey: "mak_test" });
+    const controller = new AbortController();
+
+    // Act
+    const generating = mynth.generate({ prompt: "A cat" }, { signal: controller.signal });
+    controller.abort();
+
+    // Assert
+    await expect(generating).rejects.toThrow(TaskAsyncAbortedError);
+    await expect(generating).rejects.toMatchObject({ cause: controller.signal.reason });
+  });
+
+  test("rejects with TaskAsyncAbortedError when aborted while waiting to retry", async () => {
+    // Arrange
+    const controller = new AbortController();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        setTimeout(() => controller.abort(), 0);
+        return Response.json({ error: "Unavailable" }, { status: 503 });
+      }),
+    );
+    const mynth = new Mynth({ apiKey: "mak_test", retry: { initialDelayMs: 1_000 } });
+
+    // Act
+    const generating = mynth.generate(
+      { prompt: "A cat" },
+      { mode: "async", signal: controller.signal },
+    );
+
+    // Assert
+    await expect(generating).rejects.toThrow(TaskAsyncAbortedError);
+  });
+});
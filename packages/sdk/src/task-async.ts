@@ -1,20 +1,90 @@
-import type { MynthClient } from "./client";
+import { MynthClient } from "./client";
+import type { MynthClientResponse, MynthRequestOptions } from "./client";
 import { TASK_DETAILS_PATH, TASK_STATUS_PATH } from "./constants";
 import { Task } from "./task";
 import type { MynthSDKTypes } from "./types";
 
-const POLLING_TIMEOUT_MS = 1000 * 60 * 5; // 5 minutes
-const FAST_POLLING_DURATION_MS = 12_000; // 12 seconds of fast polling
-const FAST_POLLING_INTERVAL_MS = 2_500; // 2.5 seconds
-const SLOW_POLLING_INTERVAL_MS = 5_000; // 5 seconds
-const MAX_RETRY_COUNT = 7;
+/**
+ * A polling phase. Status is polled every `intervalMs` until `untilMs` have elapsed
+ * since polling started, then the next phase takes over. The last phase applies
+ * until the timeout.
+ */
+export type PollingPhase = {
+  /** Elapsed time, in milliseconds, at which this phase ends */
+  untilMs?: number;
+  /** Delay between status requests during this phase, in milliseconds */
+  intervalMs: number;
+};
+
+/**
+ * Computes the delay before the next status request.
+ *
+ * @param attempt - Number of status requests made so far, starting at 1
+ * @param elapsedMs - Time since polling started, in milliseconds
+ * @returns Delay in milliseconds
+ */
+export type PollingIntervalFunction = (attempt: number, elapsedMs: number) => number;
+
+/**
+ * Controls how a `TaskAsync` polls for completion. Omitted fields use the defaults
+ * from `DEFAULT_POLLING_STRATEGY`.
+ */
+export type PollingStrategy = {
+  /** Total time to wait for completion before throwing `TaskAsyncTimeoutError` */
+  timeoutMs?: number;
+  /**
+   * Phase schedule, or a function returning the next delay.
+   * Delays returned by a function are used as-is, without jitter.
+   */
+  interval?: readonly PollingPhase[] | PollingIntervalFunction;
+  /** Upper bound of random delay added to each phase interval */
+  jitterMs?: number;
+  /** Consecutive failed status requests allowed before throwing `TaskAsyncFetchError` */
+  maxRetries?: number;
+};
+
+/**
+ * Default polling strategy: 2.5s intervals for the first 12 seconds, then 5s,
+ * with up to 500ms of jitter, 7 retries and a 5 minute timeout.
+ */
+export const DEFAULT_POLLING_STRATEGY = {
+  timeoutMs: 1000 * 60 * 5, // 5 minutes
+  interval: [
+    { untilMs: 12_000, intervalMs: 2_500 }, // 12 seconds of fast polling
+    { intervalMs: 5_000 },
+  ],
+  jitterMs: 500,
+  maxRetries: 7,
+} as const satisfies Required<PollingStrategy>;
+
+/**
+ * Merges polling strategies, later strategies taking precedence field by field.
+ *
+ * @internal
+ */
+export function resolvePollingStrategy(
+  ...strategies: (PollingStrategy | undefined)[]
+): Required<PollingStrategy> {
+  const resolved: Required<PollingStrategy> = { ...DEFAULT_POLLING_STRATEGY };
+
+  for (const strategy of strategies) {
+    if (!strategy) continue;
+
+    resolved.timeoutMs = strategy.timeoutMs ?? resolved.timeoutMs;
+    resolved.interval = strategy.interval ?? resolved.interval;
+    resolved.jitterMs = strategy.jitterMs ?? resolved.jitterMs;
+    resolved.maxRetries = strategy.maxRetries ?? resolved.maxRetries;
+  }
+
+  return resolved;
+}
 
 /**
  * Error thrown when task polling exceeds the maximum timeout duration.
  */
 export class TaskAsyncTimeoutError extends Error {
-  constructor(taskId: string) {
-    super(`Task ${taskId} polling timed out after ${POLLING_TIMEOUT_MS}ms`);
+  constructor(taskId: string, timeoutMs: number = DEFAULT_POLLING_STRATEGY.timeoutMs) {
+    super(`Task ${taskId} polling timed out after ${timeoutMs}ms`);
     this.name = "TaskAsyncTimeoutError";
   }
 }
@@ -61,9 +131,133 @@ export class TaskAsyncTaskFailedError extends Error {
   }
 }
 
+/**
+ * Error thrown when waiting for a task is cancelled through an `AbortSignal`, or when
+ * `generate` is aborted before the task is created, in which case there is no task id.
+ * The abort reason is available as `cause`.
+ */
+export class TaskAsyncAbortedError extends Error {
+  constructor(taskId: string | undefined, reason?: unknown) {
+    super(
+      taskId === undefined
+        ? "Generation was aborted before the task was created"
+        : `Waiting for task ${taskId} was aborted`,
+    );
+    this.name = "TaskAsyncAbortedError";
+    this.cause = reason;
+  }
+}
+
 type FetchStatusResult =
-  | { ok: true; status: MynthSDKTypes.TaskStatus }
-  | { ok: false; unauthorized: boolean; retryable: boolean; error?: Error };
+  | { ok: true; status: MynthSDKTypes.TaskStatus; httpStatus: number }
+  | {
+      ok: false;
+      unauthorized: boolean;
+      retryable: boolean;
+      httpStatus?: number;
+      /** Delay requested by the Retry-After header of a retryable response */
+      retryAfterMs?: number;
+      error?: Error;
+    };
+
+/**
+ * Details of a single status request made while polling.
+ */
+export type TaskAsyncPollEvent = {
+  /** Number of status requests made so far, starting at 1 */
+  attempt: number;
+  /** Time since polling started, in milliseconds */
+  elapsedMs: number;
+  /** HTTP status of the response, or undefined if the request failed */
+  httpStatus?: number;
+  /** Task status, if the request succeeded */
+  status?: MynthSDKTypes.TaskStatus;
+  /** Whether the request used the API key after the public access token was rejected */
+  usedApiKeyFallback: boolean;
+  /** Network error, if the request failed */
+  error?: Error;
+};
+
+type TaskAsyncListeners = Pick<TaskAsyncWaitOptions, "onStatus" | "onPoll">;
+
+/**
+ * Options for waiting on a task.
+ */
+export type TaskAsyncWaitOptions = {
+  /**
+   * Stops waiting when aborted, rejecting with `TaskAsyncAbortedError`.
+   * Polling is shared between callers and only stops once every caller has aborted.
+   */
+  signal?: AbortSignal;
+  /**
+   * Overrides the client's polling strategy. Only applies when this call starts
+   * polling; callers joining an existing polling loop share its strategy.
+   */
+  polling?: PollingStrategy;
+  /**
+   * Called when the task status changes. If the status is already known when
+   * this call joins an existing polling loop, it's called immediately.
+   */
+  onStatus?: (status: MynthSDKTypes.TaskStatus, event: TaskAsyncPollEvent) => void;
+  /** Called after every status request, including failed ones */
+  onPoll?: (event: TaskAsyncPollEvent) => void;
+};
+
+/**
+ * Calculates the delay before the next status request. Phase intervals get
+ * slight randomness so many clients don't poll in lockstep.
+ */
+function getPollingInterval(
+  polling: Required<PollingStrategy>,
+  attempt: number,
+  elapsedMs: number,
+): number {
+  if (typeof polling.interval === "function") {
+    return Math.max(0, polling.interval(attempt, elapsedMs));
+  }
+
+  const phase =
+    polling.interval.find((p) => p.untilMs === undefined || elapsedMs < p.untilMs) ??
+    polling.interval.at(-1);
+  const baseInterval = phase?.intervalMs ?? 0;
+
+  return baseInterval + Math.random() * polling.jitterMs;
+}
+
+/**
+ * Runs a caller-provided callback. Errors are ignored, so one caller's callback
+ * can't break the polling loop shared with other callers.
+ */
+function callListener(listener: () => void): void {
+  try {
+    listener();
+  } catch {
+    // Ignored
+  }
+}
+
+/**
+ * Options for creating a `TaskAsync` from a public access token.
+ */
+export type TaskAsyncFromAccessOptions = {
+  /** Public access token returned when the task was created */
+  publicAccessToken: string;
+  /** Custom base URL for the API */
+  baseUrl?: string;
+  /** Default polling strategy for waiting on the task */
+  polling?: PollingStrategy;
+};
+
+/**
+ * An update yielded by `TaskAsync.watch()`: each status transition,
+ * followed by the completed task.
+ */
+export type TaskAsyncUpdate<
+  MetadataT = Record<string, unknown> | undefined,
+  ContentRatingT = MynthSDKTypes.ImageResultContentRating | undefined,
+> =
+  | { type: "status"; status: MynthSDKTypes.TaskStatus }
+  | { type: "completed"; task: Task<MetadataT, ContentRatingT> };
 
 /**
  * Public access information for a task, used for client-side polling.
@@ -91,13 +285,75 @@ export class TaskAsync<
 
   private readonly _access: TaskAsyncAccess;
 
+  private readonly _polling: PollingStrategy | undefined;
+
+  /** Uses only the public access token, without falling back to an API key */
+  private readonly _publicAccessOnly: boolean;
+
+  /** Headers, API key and timeout for every status and details request */
+  private readonly _requestOptions: Omit<MynthRequestOptions, "signal">;
+
   private _completionPromise: Promise<Task<MetadataT, ContentRatingT>> | null = null;
 
-  constructor(id: string, options: { client: MynthClient; pat?: string }) {
+  /** Aborts the shared polling loop once every waiting caller has aborted */
+  private _pollingController: AbortController | null = null;
+
+  /** Whether `_completionPromise` has resolved or rejected */
+  private _completionSettled = false;
+
+  /** Number of callers currently waiting on `_completionPromise` */
+  private _waiters = 0;
+
+  /** Callbacks of the callers currently waiting */
+  private readonly _listeners = new Set<TaskAsyncListeners>();
+
+  /** Latest status request of the current polling loop that returned a status */
+  private _lastStatusEvent: TaskAsyncPollEvent | null = null;
+
+  constructor(
+    id: string,
+    options: {
+      client: MynthClient;
+      pat?: string;
+      polling?: PollingStrategy;
+      publicAccessOnly?: boolean;
+      requestOptions?: Omit<MynthRequestOptions, "signal">;
+    },
+  ) {
     this.id = id;
 
     this.client = options.client;
     this._access = { publicAccessToken: options.pat };
+    this._polling = options.polling;
+    this._publicAccessOnly = options.publicAccessOnly ?? false;
+    this._requestOptions = options.requestOptions ?? {};
+  }
+
+  /**
+   * Creates a TaskAsync that polls with only a public access token, without an API key.
+   * Safe to use in the browser.
+   *
+   * @param id - Task id
+   * @param options - Public access token and client options
+   * @returns A TaskAsync that never falls back to an API key
+   *
+   * @example
+   * ```typescript
+   * import { TaskAsync } from "@mynthio/sdk/public";
+   *
+   * const task = await TaskAsync.fromAccess(id, { publicAccessToken }).toTask();
+   * ```
+   */
+  static fromAccess<
+    MetadataT = Record<string, unknown> | undefined,
+    ContentRatingT = MynthSDKTypes.ImageResultContentRating | undefined,
+  >(id: string, options: TaskAsyncFromAccessOptions): TaskAsync<MetadataT, ContentRatingT> {
+    return new TaskAsync<MetadataT, ContentRatingT>(id, {
+      client: new MynthClient({ baseUrl: options.baseUrl, sdkHeaders: false }),
+      pat: options.publicAccessToken,
+      polling: options.polling,
+      publicAccessOnly: true,
+    });
   }
 
   /**
@@ -114,24 +370,188 @@ export class TaskAsync<
 
   /**
    * Polls the task until completion and returns the full Task object.
-   * Multiple calls to this method return the same promise.
+   * Multiple calls to this method share the same polling loop.
    *
+   * @param options.signal - Stops this caller's wait when aborted
+   * @param options.polling - Polling strategy for the loop this call starts
+   * @param options.onStatus - Called when the task status changes
+   * @param options.onPoll - Called after every status request
    * @throws {TaskAsyncTimeoutError} If polling exceeds the timeout
    * @throws {TaskAsyncUnauthorizedError} If access is denied
    * @throws {TaskAsyncFetchError} If fetching status fails repeatedly
    * @throws {TaskAsyncTaskFailedError} If the task fails during generation
+   * @throws {TaskAsyncAbortedError} If the signal is aborted before the task completes
    */
-  public async toTask(): Promise<Task<MetadataT, ContentRatingT>> {
+  public async toTask(
+    options: TaskAsyncWaitOptions = {},
+  ): Promise<Task<MetadataT, ContentRatingT>> {
+    const { signal, onStatus, onPoll } = options;
+
+    if (signal?.aborted) {
+      throw new TaskAsyncAbortedError(this.id, signal.reason);
+    }
+
+    const listeners: TaskAsyncListeners = { onStatus, onPoll };
+
     // Lazy init - only start polling when explicitly requested
     if (!this._completionPromise) {
-      this._completionPromise = this.pollUntilCompleted();
+      const controller = new AbortController();
+      this._pollingController = controller;
+      this._completionSettled = false;
+      this._lastStatusEvent = null;
+      const completionPromise = this.pollUntilCompleted(
+        controller.signal,
+        resolvePollingStrategy(this._polling, options.polling),
+      );
+      this._completionPromise = completionPromise;
+      // Registered before any waiter, so the flag is set before waiters are released.
+      // Rejections still reach every waiter; this also silences the abandoned-loop case.
+      // An abandoned loop settles after a new one may have started, so only the current
+      // loop marks itself settled.
+      const markSettled = () => {
+        if (this._completionPromise === completionPromise) this._completionSettled = true;
+      };
+      completionPromise.then(markSettled, markSettled);
     }
 
-    return this._completionPromise;
+    const completionPromise = this._completionPromise;
+    this._waiters++;
+
+    if (onStatus || onPoll) {
+      this._listeners.add(listeners);
+
+      const lastStatusEvent = this._lastStatusEvent;
+      const lastStatus = lastStatusEvent?.status;
+      if (lastStatusEvent && lastStatus) {
+        callListener(() => onStatus?.(lastStatus, lastStatusEvent));
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this._listeners.delete(listeners);
+        this.releaseWaiter(completionPromise);
+        reject(new TaskAsyncAbortedError(this.id, signal?.reason));
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      completionPromise.then(
+        (task) => {
+          signal?.removeEventListener("abort", onAbort);
+          this._listeners.delete(listeners);
+          this.releaseWaiter(completionPromise);
+          resolve(task);
+        },
+        (error: unknown) => {
+          signal?.removeEventListener("abort", onAbort);
+          this._listeners.delete(listeners);
+          this.releaseWaiter(completionPromise);
+          reject(error);
+        },
+      );
+    });
   }
 
-  private async pollUntilCompleted(): Promise<Task<MetadataT, ContentRatingT>> {
+  /**
+   * Watches the task, yielding each status transition and finishing with the completed Task.
+   * Shares the polling loop with `toTask()`. Leaving the loop early stops waiting.
+   *
+   * @param options.signal - Stops watching when aborted
+   * @param options.polling - Polling strategy for the loop this call starts
+   * @throws {TaskAsyncTaskFailedError} After yielding the "failed" status, if the task fails
+   * @throws {TaskAsyncAbortedError} If the signal is aborted before the task completes
+   *
+   * @example
+   * ```typescript
+   * for await (const update of taskAsync.watch()) {
+   *   if (update.type === "status") console.log("Status:", update.status);
+   *   else console.log("Images:", update.task.urls);
+   * }
+   * ```
+   */
+  public async *watch(
+    options: Pick<TaskAsyncWaitOptions, "signal" | "polling"> = {},
+  ): AsyncGenerator<TaskAsyncUpdate<MetadataT, ContentRatingT>, void, undefined> {
+    const { signal, polling } = options;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const statuses: MynthSDKTypes.TaskStatus[] = [];
+    let settled = false;
+    let wake: (() => void) | null = null;
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+
+    const taskPromise = this.toTask({
+      signal: controller.signal,
+      polling,
+      onStatus: (status) => {
+        statuses.push(status);
+        notify();
+      },
+    });
+    taskPromise.then(
+      () => {
+        settled = true;
+        notify();
+      },
+      () => {
+        settled = true;
+        notify();
+      },
+    );
+
+    try {
+      while (true) {
+        let status: MynthSDKTypes.TaskStatus | undefined;
+        while ((status = statuses.shift())) {
+          yield { type: "status", status };
+        }
+
+        if (settled) break;
+
+        await new Promise<void>((resolve) => (wake = resolve));
+      }
+
+      yield { type: "completed", task: await taskPromise };
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      // Stops this watcher's wait if the consumer left the loop early
+      controller.abort();
+    }
+  }
+
+  /**
+   * Stops the shared polling loop when its last waiter aborts before it settles,
+   * so a later `toTask()` starts polling afresh.
+   */
+  private releaseWaiter(completionPromise: Promise<Task<MetadataT, ContentRatingT>>): void {
+    if (completionPromise !== this._completionPromise) return;
+
+    this._waiters--;
+
+    // A settled loop is kept so repeated calls return the same Task
+    if (this._waiters > 0 || this._completionSettled) return;
+
+    this._pollingController?.abort();
+    this._pollingController = null;
+    this._completionPromise = null;
+  }
+
+  private async pollUntilCompleted(
+    signal: AbortSignal,
+    polling: Required<PollingStrategy>,
+  ): Promise<Task<MetadataT, ContentRatingT>> {
     const startTime = Date.now();
+    let attempt = 0;
     let retryCount = 0;
     let useApiKeyFallback = false;
     let lastError: Error | undefined;
@@ -139,17 +559,27 @@ export class TaskAsync<
     while (true) {
       const elapsed = Date.now() - startTime;
 
-      if (elapsed >= POLLING_TIMEOUT_MS) {
-        throw new TaskAsyncTimeoutError(this.id);
+      if (elapsed >= polling.timeoutMs) {
+        throw new TaskAsyncTimeoutError(this.id, polling.timeoutMs);
       }
 
-      const result = await this.fetchStatus(useApiKeyFallback);
+      attempt++;
+      const result = await this.fetchStatus(useApiKeyFallback, signal);
+
+      this.emitPoll({
+        attempt,
+        elapsedMs: Date.now() - startTime,
+        httpStatus: result.httpStatus,
+        status: result.ok ? result.status : undefined,
+        usedApiKeyFallback: useApiKeyFallback,
+        error: result.ok ? undefined : result.error,
+      });
 
       if (result.ok) {
         retryCount = 0;
 
         if (result.status === "completed") {
-          const taskData = await this.fetchTask();
+          const taskData = await this.fetchTask(signal);
           return new Task(taskData);
         }
 
@@ -159,7 +589,7 @@ export class TaskAsync<
       } else {
         if (result.unauthorized) {
           // If using PAT and got unauthorized, try falling back to API key
-          if (this._access.publicAccessToken && !useApiKeyFallback) {
+          if (this._access.publicAccessToken && !this._publicAccessOnly && !useApiKeyFallback) {
             useApiKeyFallback = true;
             continue; // Retry immediately with API key
           }
@@ -171,27 +601,47 @@ export class TaskAsync<
           retryCount++;
           lastError = result.error;
 
-          if (retryCount >= MAX_RETRY_COUNT) {
+          if (retryCount >= polling.maxRetries) {
             throw new TaskAsyncFetchError(this.id, lastError);
           }
         }
       }
 
-      // Calculate polling interval with slight randomness
-      const isInFastPhase = elapsed < FAST_POLLING_DURATION_MS;
-      const baseInterval = isInFastPhase ? FAST_POLLING_INTERVAL_MS : SLOW_POLLING_INTERVAL_MS;
-      const jitter = Math.random() * 500; // 0-500ms randomness
-      const interval = baseInterval + jitter;
+      // Retry-After asks for a longer wait than the polling interval, never a shorter one
+      const interval = Math.max(
+        getPollingInterval(polling, attempt, elapsed),
+        (!result.ok && result.retryAfterMs) || 0,
+      );
 
       // Don't wait longer than remaining timeout
-      const remainingTime = POLLING_TIMEOUT_MS - elapsed;
+      const remainingTime = polling.timeoutMs - elapsed;
       const waitTime = Math.min(interval, remainingTime);
 
-      await this.sleep(waitTime);
+      await this.sleep(waitTime, signal);
+    }
+  }
+
+  /**
+   * Notifies waiting callers about a status request, and about a status change if any.
+   */
+  private emitPoll(event: TaskAsyncPollEvent): void {
+    const { status } = event;
+    const changedStatus = status !== this._lastStatusEvent?.status ? status : undefined;
+
+    if (status) {
+      this._lastStatusEvent = event;
+    }
+
+    for (const { onStatus, onPoll } of this._listeners) {
+      callListener(() => onPoll?.(event));
+
+      if (changedStatus) {
+        callListener(() => onStatus?.(changedStatus, event));
+      }
     }
   }
 
-  private async fetchStatus(useApiKey: boolean): Promise<FetchStatusResult> {
+  private async fetchStatus(useApiKey: boolean, signal: AbortSignal): Promise<FetchStatusResult> {
     const accessToken =
       useApiKey || !this._access.publicAccessToken ? undefined : this._access.publicAccessToken;
 
@@ -199,31 +649,48 @@ export class TaskAsync<
       const response = await this.client.get<{
         status: MynthSDKTypes.TaskStatus;
       }>(TASK_STATUS_PATH(this.id), {
+        ...this._requestOptions,
         accessToken,
+        signal,
+        // Failed status requests are retried by the polling loop, under `polling.maxRetries`,
+        // for the statuses the client's retry policy retries
+        maxRetries: 0,
       });
 
       if (response.ok) {
-        return { ok: true, status: response.data.status };
+        return { ok: true, status: response.data.status, httpStatus: response.status };
       }
 
+      const httpStatus = response.status;
+
       // 401 or 403 are unauthorized
-      if (response.status === 401 || response.status === 403) {
-        return { ok: false, unauthorized: true, retryable: false };
+      if (httpStatus === 401 || httpStatus === 403) {
+        return { ok: false, unauthorized: true, retryable: false, httpStatus };
       }
 
       // 404 means task not found or no access - treat as unauthorized
-      if (response.status === 404) {
-        return { ok: false, unauthorized: true, retryable: false };
+      if (httpStatus === 404) {
+        return { ok: false, unauthorized: true, retryable: false, httpStatus };
       }
 
-      // 5xx errors are retryable
-      if (response.status >= 500) {
-        return { ok: false, unauthorized: false, retryable: true };
+      // Statuses retried by the retry policy (e.g. 429 and 503) are retryable
+      if (this.client.isRetryableStatus(httpStatus)) {
+        return {
+          ok: false,
+          unauthorized: false,
+          retryable: true,
+          httpStatus,
+          retryAfterMs: response.retryAfterMs,
+        };
       }
 
-      // Other 4xx errors are not retryable
-      return { ok: false, unauthorized: false, retryable: false };
+      // Other errors are not retryable
+      return { ok: false, unauthorized: false, retryable: false, httpStatus };
     } catch (error) {
+      if (signal.aborted) {
+        throw new TaskAsyncAbortedError(this.id, signal.reason);
+      }
+
       // Network errors, connection failures etc. are retryable
       return {
         ok: false,
@@ -234,8 +701,20 @@ export class TaskAsync<
     }
   }
 
-  private async fetchTask(): Promise<MynthSDKTypes.TaskData> {
-    const response = await this.client.get<MynthSDKTypes.TaskData>(TASK_DETAILS_PATH(this.id));
+  private async fetchTask(signal: AbortSignal): Promise<MynthSDKTypes.TaskData> {
+    let response: MynthClientResponse<MynthSDKTypes.TaskData>;
+    try {
+      response = await this.client.get<MynthSDKTypes.TaskData>(TASK_DETAILS_PATH(this.id), {
+        ...this._requestOptions,
+        accessToken: this._publicAccessOnly ? this._access.publicAccessToken : undefined,
+        signal,
+      });
+    } catch (error) {
+      if (signal.aborted) {
+        throw new TaskAsyncAbortedError(this.id, signal.reason);
+      }
+      throw error;
+    }
 
     if (response.ok) {
       return response.data;
@@ -252,7 +731,23 @@ export class TaskAsync<
     throw new TaskAsyncTaskFetchError(this.id, response.status);
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(new TaskAsyncAbortedError(this.id, signal.reason));
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new TaskAsyncAbortedError(this.id, signal.reason));
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
   }
 }
@@ -0,0 +1,309 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+
+import type { MynthClient } from "./client";
+import { MynthAPIError } from "./client";
+import { Task } from "./task";
+import { TaskAsync, TaskAsyncTimeoutError } from "./task-async";
+import { MynthTasks } from "./tasks";
+import type { MynthSDKTypes } from "./types";
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function createMockClient(get: ReturnType<typeof vi.fn>): MynthClient {
+  return { get } as unknown as MynthClient;
+}
+
+function createMockTaskData(
+  overrides: Partial<MynthSDKTypes.TaskData> = {},
+): MynthSDKTypes.TaskData {
+  return {
+    id: "stored-task",
+    status: "completed",
+    type: "image",
+    apiKeyId: "api-key-123",
+    userId: "user-123",
+    cost: "0.01",
+    result: null,
+    request: null,
+    createdAt: "2026-01-29T12:00:00Z",
+    updatedAt: "2026-01-29T12:00:00Z",
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// MynthTasks.get()
+// ============================================================================
+
+describe("MynthTasks.get()", () => {
+  test("returns the task in its current state", async () => {
+    // Arrange
+    const mockGet = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      data: createMockTaskData({ status: "pending" }),
+    });
+    const tasks = new MynthTasks({ client: createMockClient(mockGet) });
+
+    // Act
+    const task = await tasks.get("stored-task");
+
+    // Assert
+    expect(task).toBeInstanceOf(Task);
+    expect(task.id).toBe("stored-task");
+    expect(task.status).toBe("pending");
+    expect(mockGet).toHaveBeenCalledWith("/tasks/stored-task", undefined);
+  });
+
+  test("passes request options to the client", async () => {
+    // Arrange
+    const mockGet = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      data: createMockTaskData(),
+    });
+    const tasks = new MynthTasks({ client: createMockClient(mockGet) });
+    const requestOptions = { apiKey: "mak_customer", headers: { "X-Tenant-Id": "tenant-1" } };
+
+    // Act
+    await tasks.get("stored-task", requestOptions);
+
+    // Assert
+    expect(mockGet).toHaveBeenCalledWith("/tasks/stored-task", requestOptions);
+  });
+
+  test("throws MynthAPIError with the API error message and code", async () => {
+    // Arrange
+    const mockGet = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 404,
+      data: { error: "Task not found", code: "task_not_found" },
+    });
+    const tasks = new MynthTasks({ client: createMockClient(mockGet) });
+
+    // Act & Assert
+    await expect(tasks.get("missing-task")).rejects.toMatchObject({
+      name: "MynthAPIError",
+      message: "Task not found",
+      status: 404,
+      code: "task_not_found",
+    });
+    await expect(tasks.get("missing-task")).rejects.toThrow(MynthAPIError);
+  });
+});
+
+// ============================================================================
+// MynthTasks.list() and iterate()
+// ============================================================================
+
+describe("MynthTasks.list()", () => {
+  test("sends filters as query params and returns typed tasks", async () => {
+    // Arrange
+    const mockGet = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      data: {
+        data: [createMockTaskData({ id: "task-1" }), createMockTaskData({ id: "task-2" })],
+        nextCursor: "cursor-2",
+      },
+    });
+    const tasks = new MynthTasks({ client: createMockClient(mockGet) });
+
+    // Act
+    const page = await tasks.list({
+      status: "completed",
+      model: "black-forest-labs/flux.1-dev",
+      createdAfter: new Date("2026-01-01T00:00:00Z"),
+      createdBefore: "2026-02-01T00:00:00Z",
+      limit: 2,
+    });
+
+    // Assert
+    expect(page.tasks.map((task) => task.id)).toEqual(["task-1", "task-2"]);
+    expect(page.tasks[0]).toBeInstanceOf(Task);
+    expect(page.nextCursor).toBe("cursor-2");
+    expect(mockGet).toHaveBeenCalledWith(
+      "/tasks?status=completed&model=black-forest-labs%2Fflux.1-dev" +
+        "&createdAfter=2026-01-01T00%3A00%3A00.000Z&createdBefore=2026-02-01T00%3A00%3A00Z&limit=2",
+      undefined,
+    );
+  });
+
+  test("requests /tasks without a query string when no params are set", async () => {
+    // Arrange
+    const mockGet = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      data: { data: [], nextCursor: null },
+    });
+    const tasks = new MynthTasks({ client: createMockClient(mockGet) });
+
+    // Act
+    const page = await tasks.list();
+
+    // Assert
+    expect(page).toEqual({ tasks: [], nextCursor: null });
+    expect(mockGet).toHaveBeenCalledWith("/tasks", undefined);
+  });
+
+  test("throws MynthAPIError when listing fails", async () => {
+    // Arrange
+    const mockGet = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 401,
+      data: { error: "Invalid API key" },
+    });
+    const tasks = new MynthTasks({ client: createMockClient(mockGet) });
+
+    // Act & Assert
+    await expect(tasks.list()).rejects.toThrow(MynthAPIError);
+  });
+});
+
+describe("MynthTasks.iterate()", () => {
+  test("walks every page, passing the filters and cursor along", async () => {
+    // Arrange
+    const mockGet = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        data: { data: [createMockTaskData({ id: "task-1" })], nextCursor: "cursor-2" },
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        data: { data: [createMockTaskData({ id: "task-2" })], nextCursor: null },
+      });
+    const tasks = new MynthTasks({ client: createMockClient(mockGet) });
+    const ids: string[] = [];
+
+    // Act
+    for await (const task of tasks.iterate({ status: "failed" })) {
+      ids.push(task.id);
+    }
+
+    // Assert
+    expect(ids).toEqual(["task-1", "task-2"]);
+    expect(mockGet.mock.calls.map(([path]) => path)).toEqual([
+      "/tasks?status=failed",
+      "/tasks?status=failed&cursor=cursor-2",
+    ]);
+  });
+
+  test("stops fetching pages when the consumer leaves the loop early", async () => {
+    // Arrange
+    const mockGet = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      data: { data: [createMockTaskData()], nextCursor: "next" },
+    });
+    const tasks = new MynthTasks({ client: createMockClient(mockGet) });
+
+    // Act
+    for await (const _task of tasks.iterate()) {
+      break;
+    }
+
+    // Assert
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ============================================================================
+// MynthTasks.resume()
+// ============================================================================
+
+describe("MynthTasks.resume()", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("returns a TaskAsync that polls the stored task until completion", async () => {
+    // Arrange
+    const taskData = createMockTaskData();
+    const mockGet = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "completed" } })
+      .mockResolvedValueOnce({ ok: true, status: 200, data: taskData });
+    const tasks = new MynthTasks({ client: createMockClient(mockGet) });
+
+    // Act
+    const taskAsync = tasks.resume("stored-task");
+    const task = await taskAsync.toTask();
+
+    // Assert
+    expect(taskAsync).toBeInstanceOf(TaskAsync);
+    expect(taskAsync.id).toBe("stored-task");
+    expect(task.id).toBe("stored-task");
+  });
+
+  test("polls with the public access token when given one", async () => {
+    // Arrange
+    const mockGet = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      data: { status: "failed" },
+    });
+    const tasks = new MynthTasks({ client: createMockClient(mockGet) });
+
+    // Act
+    const taskAsync = tasks.resume("stored-task", { publicAccessToken: "pat_stored" });
+    await taskAsync.toTask().catch(() => {});
+
+    // Assert
+    expect(taskAsync.access.publicAccessToken).toBe("pat_stored");
+    expect(mockGet).toHaveBeenCalledWith(
+      "/tasks/stored-task/status",
+      expect.objectContaining({ accessToken: "pat_stored" }),
+    );
+  });
+
+  test("polls with the given request options", async () => {
+    // Arrange
+    const mockGet = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, status: 200, data: { status: "completed" } })
+      .mockResolvedValueOnce({ ok: true, status: 200, data: createMockTaskData() });
+    const tasks = new MynthTasks({ client: createMockClient(mockGet) });
+
+    // Act
+    await tasks
+      .resume("stored-task", { requestOptions: { apiKey: "mak_customer", timeoutMs: 5_000 } })
+      .toTask();
+
+    // Assert
+    expect(mockGet).toHaveBeenCalledTimes(2);
+    for (const [, options] of mockGet.mock.calls) {
+      expect(options).toMatchObject({ apiKey: "mak_customer", timeoutMs: 5_000 });
+    }
+  });
+
+  test("merges the polling strategy over the client's", async () => {
+    // Arrange
+    const mockGet = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      data: { status: "pending" },
+    });
+    const tasks = new MynthTasks({
+      client: createMockClient(mockGet),
+      polling: { timeoutMs: 1000 * 60 * 30, interval: () => 1_000 },
+    });
+
+    // Act
+    const taskPromise = tasks.resume("stored-task", { polling: { timeoutMs: 5_000 } }).toTask();
+    const rejectionExpectation = expect(taskPromise).rejects.toThrow(TaskAsyncTimeoutError);
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    // Assert
+    await rejectionExpectation;
+    expect(mockGet).toHaveBeenCalledTimes(5);
+  });
+});
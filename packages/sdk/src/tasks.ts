@@ -0,0 +1,204 @@
+import type { MynthClient, MynthRequestOptions } from "./client";
+import { createAPIError } from "./client";
+import { TASK_DETAILS_PATH, TASK_PATH } from "./constants";
+import { Task } from "./task";
+import type { PollingStrategy } from "./task-async";
+import { resolvePollingStrategy, TaskAsync } from "./task-async";
+import type { MynthSDKTypes } from "./types";
+
+/**
+ * Options for resuming a task.
+ */
+export type ResumeTaskOptions = {
+  /** Public access token, if one was generated. Status is polled with it first. */
+  publicAccessToken?: string;
+  /** Polling strategy for waiting on the task, merged over the client's */
+  polling?: PollingStrategy;
+  /** Headers, API key and timeout for every status and details request */
+  requestOptions?: Omit<MynthRequestOptions, "signal">;
+};
+
+/**
+ * Filters and pagination for listing tasks.
+ */
+export type ListTasksParams = {
+  /** Only tasks with this status */
+  status?: MynthSDKTypes.TaskStatus;
+  /** Only tasks generated with this model */
+  model?: MynthSDKTypes.ImageGenerationModel;
+  /** Only tasks created after this time */
+  createdAfter?: Date | string;
+  /** Only tasks created before this time */
+  createdBefore?: Date | string;
+  /** Maximum number of tasks per page */
+  limit?: number;
+  /** Cursor from a previous page's `nextCursor` */
+  cursor?: string;
+};
+
+/**
+ * A page of tasks.
+ */
+export type TaskList<
+  MetadataT = Record<string, unknown> | undefined,
+  ContentRatingT = MynthSDKTypes.ImageResultContentRating | undefined,
+> = {
+  /** Tasks on this page */
+  tasks: Task<MetadataT, ContentRatingT>[];
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+};
+
+/**
+ * Builds the query string for listing tasks, skipping unset params.
+ */
+function toTaskListQuery(params: ListTasksParams): string {
+  const query = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    query.set(key, value instanceof Date ? value.toISOString() : String(value));
+  }
+
+  const queryString = query.toString();
+  return queryString ? `?${queryString}` : "";
+}
+
+/**
+ * Access to existing tasks, e.g. ones created by another process.
+ * Available as `mynth.tasks`.
+ */
+export class MynthTasks {
+  private readonly client: MynthClient;
+  private readonly polling: PollingStrategy | undefined;
+
+  /** @internal */
+  constructor(options: { client: MynthClient; polling?: PollingStrategy }) {
+    this.client = options.client;
+    this.polling = options.polling;
+  }
+
+  /**
+   * Fetches a task by its id, in whatever state it's in.
+   *
+   * @param id - Task id
+   * @param requestOptions - Per-call headers, API key, timeout and signal
+   * @returns The task
+   * @throws {MynthAPIError} If the task can't be fetched
+   *
+   * @example
+   * ```typescript
+   * const task = await mynth.tasks.get(taskId);
+   * if (task.isCompleted) console.log(task.urls);
+   * ```
+   */
+  public async get<
+    MetadataT = Record<string, unknown> | undefined,
+    ContentRatingT = MynthSDKTypes.ImageResultContentRating | undefined,
+  >(id: string, requestOptions?: MynthRequestOptions): Promise<Task<MetadataT, ContentRatingT>> {
+    const response = await this.client.get<MynthSDKTypes.TaskData>(
+      TASK_DETAILS_PATH(id),
+      requestOptions,
+    );
+
+    if (!response.ok) {
+      throw createAPIError(response);
+    }
+
+    return new Task(response.data);
+  }
+
+  /**
+   * Lists tasks, newest first, one page at a time.
+   *
+   * @param params - Filters and pagination
+   * @param requestOptions - Per-call headers, API key, timeout and signal
+   * @returns A page of tasks and the cursor for the next one
+   * @throws {MynthAPIError} If the tasks can't be listed
+   *
+   * @example
+   * ```typescript
+   * const { tasks, nextCursor } = await mynth.tasks.list({ status: "failed", limit: 50 });
+   * const nextPage = nextCursor ? await mynth.tasks.list({ cursor: nextCursor }) : null;
+   * ```
+   */
+  public async list<
+    MetadataT = Record<string, unknown> | undefined,
+    ContentRatingT = MynthSDKTypes.ImageResultContentRating | undefined,
+  >(
+    params: ListTasksParams = {},
+    requestOptions?: MynthRequestOptions,
+  ): Promise<TaskList<MetadataT, ContentRatingT>> {
+    const response = await this.client.get<MynthSDKTypes.TaskListResponse>(
+      `${TASK_PATH}${toTaskListQuery(params)}`,
+      requestOptions,
+    );
+
+    if (!response.ok) {
+      throw createAPIError(response);
+    }
+
+    return {
+      tasks: response.data.data.map((data) => new Task<MetadataT, ContentRatingT>(data)),
+      nextCursor: response.data.nextCursor,
+    };
+  }
+
+  /**
+   * Iterates over every task matching the filters, fetching pages as needed.
+   *
+   * @param params - Filters, and optionally the cursor to start from
+   * @param requestOptions - Headers, API key, timeout and signal for every page request
+   * @throws {MynthAPIError} If a page can't be fetched
+   *
+   * @example
+   * ```typescript
+   * for await (const task of mynth.tasks.iterate({ createdAfter: new Date("2026-01-01") })) {
+   *   await reconcile(task);
+   * }
+   * ```
+   */
+  public async *iterate<
+    MetadataT = Record<string, unknown> | undefined,
+    ContentRatingT = MynthSDKTypes.ImageResultContentRating | undefined,
+  >(
+    params: ListTasksParams = {},
+    requestOptions?: MynthRequestOptions,
+  ): AsyncGenerator<Task<MetadataT, ContentRatingT>, void, undefined> {
+    let cursor = params.cursor;
+
+    do {
+      const page = await this.list<MetadataT, ContentRatingT>(
+        { ...params, cursor },
+        requestOptions,
+      );
+      yield* page.tasks;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Resumes waiting on a task created earlier, e.g. with `mode: "async"` in another process.
+   *
+   * @param id - Task id
+   * @param options - Resume options
+   * @returns A TaskAsync that can be polled for completion
+   *
+   * @example
+   * ```typescript
+   * // In a worker, with the id stored by a web handler
+   * const task = await mynth.tasks.resume(job.taskId).toTask();
+   * ```
+   */
+  public resume<
+    MetadataT = Record<string, unknown> | undefined,
+    ContentRatingT = MynthSDKTypes.ImageResultContentRating | undefined,
+  >(id: string, options: ResumeTaskOptions = {}): TaskAsync<MetadataT, ContentRatingT> {
+    return new TaskAsync<MetadataT, ContentRatingT>(id, {
+      client: this.client,
+      pat: options.publicAccessToken,
+      polling: resolvePollingStrategy(this.polling, options.polling),
+      requestOptions: options.requestOptions,
+    });
+  }
+}
@@ -1,3 +1,5 @@
+import type { AVAILABLE_MODELS, ModelCapability } from "./constants";
+
 /**
  * Type definitions for the Mynth SDK.
  * Import as `import type { MynthSDKTypes } from "@mynthio/sdk"`.
@@ -33,6 +35,40 @@ export namespace MynthSDKTypes {
     updatedAt: string;
   };
 
+  /** A page of tasks returned from the API, newest first */
+  export type TaskListResponse = {
+    /** Tasks on this page */
+    data: TaskData[];
+    /** Cursor for the next page (null on the last page) */
+    nextCursor: string | null;
+  };
+
+  /** Pricing hints for a model */
+  export type ModelPricing = {
+    /** Typical cost per image in string format */
+    perImage: string;
+  };
+
+  /** Model in the catalog returned from the API */
+  export type ModelData = {
+    /** Unique model identifier used in API requests */
+    id: string;
+    /** Human-readable display name */
+    label: string;
+    /** List of supported capabilities */
+    capabilities: readonly ModelCapability[];
+    /** Pricing hints (absent for the bundled fallback catalog) */
+    pricing?: ModelPricing;
+    /** Supported sizes, e.g. "1024x1024" (absent for the bundled fallback catalog) */
+    sizes?: string[];
+  };
+
+  /** Model catalog returned from the API */
+  export type ModelListResponse = {
+    /** Available models */
+    data: ModelData[];
+  };
+
   /** Available model identifiers */
   export type ImageGenerationModelId =
     | "alibaba/qwen-image-2.0"
@@ -52,6 +88,17 @@ export namespace MynthSDKTypes {
   /** Model to use for generation ("auto" lets the system choose) */
   export type ImageGenerationModel = ImageGenerationModelId | "auto";
 
+  /**
+   * Selects a model by capabilities instead of by id.
+   * Resolved client-side to the first matching model in `AVAILABLE_MODELS`.
+   */
+  export type ModelSelector = {
+    /** Capabilities the model must have */
+    requires: readonly ModelCapability[];
+    /** Capabilities the model must not have */
+    excludes?: readonly ModelCapability[];
+  };
+
   /** Prompt enhancement mode for structured prompts */
   export type ImageGenerationRequestEnhance = false | "prefer_magic" | "prefer_native";
 
@@ -150,6 +197,20 @@ export namespace MynthSDKTypes {
     prefer: "mynth" | "native";
   };
 
+  /** Sampling scheduler, for models with the `scheduler` capability */
+  export type ImageGenerationRequestScheduler =
+    | "euler"
+    | "euler_ancestral"
+    | "heun"
+    | "lms"
+    | "ddim"
+    | "unipc"
+    | "dpmpp_2m"
+    | "dpmpp_2m_karras"
+    | "dpmpp_2m_sde"
+    | "dpmpp_2m_sde_karras"
+    | "dpmpp_sde";
+
   /** Image input source */
   export type ImageGenerationRequestInputSource = {
     type: "url";
@@ -198,10 +259,89 @@ export namespace MynthSDKTypes {
     content_rating?: ImageGenerationRequestContentRating;
     /** Optional input images as URL shortcuts or structured objects */
     inputs?: (string | ImageGenerationRequestInput)[];
+    /** Number of inference steps, for models with the `steps` capability */
+    steps?: number;
+    /** Classifier-free guidance scale, for models with the `cfg_scale` capability */
+    cfg_scale?: number;
+    /** Sampling scheduler, for models with the `scheduler` capability */
+    scheduler?: ImageGenerationRequestScheduler;
     /** Custom metadata to attach (returned in results and webhooks). Max 2KB. */
     metadata?: Record<string, unknown>;
   };
 
+  /**
+   * Capabilities of a model, from `AVAILABLE_MODELS`.
+   * For a union of models, the capabilities of any of them.
+   */
+  export type ModelCapabilities<M extends ImageGenerationModel> = Extract<
+    (typeof AVAILABLE_MODELS)[number],
+    { id: M }
+  >["capabilities"][number];
+
+  /** Structured prompt without a negative prompt, for models without `negative_prompt` */
+  export type PromptStructuredWithoutNegative = Omit<PromptStructured, "negative"> & {
+    negative?: never;
+  };
+
+  /** Sizes allowed for a model with the given capabilities */
+  export type ImageGenerationRequestSizeFor<C extends ModelCapability> =
+    | ImageGenerationRequestSizePreset
+    | ImageGenerationRequestSizeAspectRatio
+    | "auto"
+    | ("custom_resolution" extends C
+        ? `${number}x${number}` | ImageGenerationRequestSizeResolution
+        : never)
+    | ("auto_size" extends C
+        ? ImageGenerationRequestSizeAuto
+        : ImageGenerationRequestSizeAuto & { prefer: "mynth" });
+
+  /**
+   * Image generation request that only allows the fields a model with the given
+   * capabilities supports.
+   */
+  export type ImageGenerationRequestWithCapabilities<C extends ModelCapability> = Omit<
+    ImageGenerationRequest,
+    "prompt" | "size" | "inputs" | "steps" | "cfg_scale" | "scheduler"
+  > & {
+    prompt: "negative_prompt" extends C
+      ? ImageGenerationRequestPrompt
+      : string | PromptStructuredWithoutNegative;
+    size?: ImageGenerationRequestSizeFor<C>;
+    inputs?: "inputs" extends C ? ImageGenerationRequest["inputs"] : never;
+    steps?: "steps" extends C ? number : never;
+    cfg_scale?: "cfg_scale" extends C ? number : never;
+    scheduler?: "scheduler" extends C ? ImageGenerationRequestScheduler : never;
+  };
+
+  /**
+   * Image generation request for a model, only allowing the fields it supports.
+   * `"auto"`, an unset model, or a union including `"auto"` keep the permissive
+   * `ImageGenerationRequest`.
+   *
+   * @example
+   * ```typescript
+   * const request: MynthSDKTypes.ImageGenerationRequestForModel<"xai/grok-imagine-image"> = {
+   *   prompt: "A cat",
+   *   inputs: ["https://..."], // Error: the model doesn't support inputs
+   * };
+   * ```
+   */
+  export type ImageGenerationRequestForModel<M extends ImageGenerationModel | undefined> =
+    undefined extends M
+      ? ImageGenerationRequest
+      : "auto" extends M
+        ? ImageGenerationRequest
+        : ImageGenerationRequestWithCapabilities<ModelCapabilities<Exclude<M, undefined>>>;
+
+  /**
+   * Image generation request accepted by `generate`, which can also select
+   * the model by capabilities.
+   */
+  export type ImageGenerationRequestWithModelSelector = Omit<ImageGenerationRequest, "model"> & {
+    /** Model to use, or the capabilities to select one by (default: "auto") */
+    model?: ImageGenerationModel | ModelSelector;
+  };
+
   /** Default content rating levels */
   export type ImageResultContentRatingDefaultLevel = "sfw" | "nsfw";
 
@@ -306,4 +446,12 @@ export namespace MynthSDKTypes {
    * Webhook payload union
    */
   export type WebhookPayload = WebhookTaskImageCompletedPayload | WebhookTaskImageFailedPayload;
+
+  /** Names of all webhook events */
+  export type WebhookEvent = WebhookPayload["event"];
+
+  /** Webhook payload for each event name, derived from `WebhookPayload` */
+  export type WebhookEventPayloadMap = {
+    [P in WebhookPayload as P["event"]]: P;
+  };
 }
@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+
+import { Mynth } from "./index";
+import type { MynthSDKTypes } from "./types";
+import { MynthValidationError, validateRequest } from "./validation";
+
+// ============================================================================
+// validateRequest()
+// ============================================================================
+
+describe("validateRequest()", () => {
+  test("accepts any request for the auto model", () => {
+    // Act
+    const result = validateRequest({
+      prompt: { positive: "A cat", negative: "dogs", enhance: false },
+      inputs: ["https://example.com/cat.png"],
+      size: { type: "resolution", width: 1024, height: 768 },
+    });
+
+    // Assert
+    expect(result).toEqual({ valid: true, issues: [] });
+  });
+
+  test("accepts options the model supports", () => {
+    // Act
+    const result = validateRequest({
+      prompt: { positive: "A cat", negative: "dogs", enhance: false },
+      model: "john6666/bismuth-illustrious-mix",
+    });
+
+    // Assert
+    expect(result.valid).toBe(true);
+  });
+
+  test("reports each option the model doesn't support, with its path", () => {
+    // Act
+    const result = validateRequest({
+      prompt: { positive: "A cat", negative: "dogs", enhance: false },
+      model: "black-forest-labs/flux.1-dev",
+      inputs: ["https://example.com/cat.png"],
+      size: "1024x768",
+    });
+
+    // Assert
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(({ path, code, capability }) => ({ path, code, capability }))).toEqual(
+      [
+        {
+          path: ["prompt", "negative"],
+          code: "unsupported_capability",
+          capability: "negative_prompt",
+        },
+        { path: ["inputs"], code: "unsupported_capability", capability: "inputs" },
+        { path: ["size"], code: "unsupported_capability", capability: "custom_resolution" },
+      ],
+    );
+  });
+
+  test("reports native auto sizing for models without auto_size", () => {
+    // Act
+    const result = validateRequest({
+      prompt: "A cat",
+      model: "wan/wan2.6-image",
+      size: { type: "auto", prefer: "native" },
+    });
+
+    // Assert
+    expect(result.issues).toMatchObject([{ path: ["size"], capability: "auto_size" }]);
+  });
+
+  test("reports sampling parameters the model doesn't support", () => {
+    // Act
+    const supported = validateRequest({
+      prompt: "A cat",
+      model: "john6666/bismuth-illustrious-mix",
+      steps: 30,
+      cfg_scale: 6.5,
+      scheduler: "dpmpp_2m_karras",
+    });
+    const unsupported = validateRequest({
+      prompt: "A cat",
+      model: "black-forest-labs/flux.1-dev",
+      steps: 30,
+      cfg_scale: 6.5,
+      scheduler: "euler",
+    });
+
+    // Assert
+    expect(supported.valid).toBe(true);
+    expect(unsupported.issues.map(({ path }) => path)).toEqual([["cfg_scale"], ["scheduler"]]);
+  });
+
+  test("reports unknown models", () => {
+    // Act
+    const result = validateRequest({
+      prompt: "A cat",
+      model: "acme/unknown-model" as "auto",
+    });
+
+    // Assert
+    expect(result).toMatchObject({
+      valid: false,
+      issues: [{ path: ["model"], code: "unknown_model" }],
+    });
+  });
+});
+
+// ============================================================================
+// Mynth validate option
+// ============================================================================
+
+describe("Mynth validate option", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  // Typed loosely, like a request built at runtime, so the model-specific types don't reject it
+  const invalidRequest: MynthSDKTypes.ImageGenerationRequest = {
+    prompt: { positive: "A cat", negative: "dogs", enhance: false },
+    model: "black-forest-labs/flux.1-dev",
+  };
+
+  test("throws MynthValidationError without sending the request in strict mode", async () => {
+    // Arrange
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const mynth = new Mynth({ apiKey: "mak_test", validate: "strict" });
+
+    // Act & Assert
+    await expect(mynth.generate(invalidRequest, { mode: "async" })).rejects.toMatchObject({
+      name: "MynthValidationError",
+      issues: [{ path: ["prompt", "negative"] }],
+    });
+    await expect(mynth.generate(invalidRequest, { mode: "async" })).rejects.toThrow(
+      MynthValidationError,
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test("logs issues and sends the request in warn mode", async () => {
+    // Arrange
+    const fetchMock = vi.fn().mockResolvedValue(Response.json({ taskId: "task-1" }));
+    vi.stubGlobal("fetch", fetchMock);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const mynth = new Mynth({ apiKey: "mak_test", validate: "warn" });
+
+    // Act
+    const taskAsync = await mynth.generate(invalidRequest, { mode: "async" });
+
+    // Assert
+    expect(taskAsync.id).toBe("task-1");
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("negative prompts"));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
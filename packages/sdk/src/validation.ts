@@ -0,0 +1,156 @@
+import type { AvailableModel, ModelCapability } from "./constants";
+import { AVAILABLE_MODELS } from "./constants";
+import type { MynthSDKTypes } from "./types";
+
+/**
+ * How `generate` validates requests before sending them:
+ * - `"strict"`: throws `MynthValidationError` on any issue
+ * - `"warn"`: logs issues with `console.warn` and sends the request anyway
+ * - `"off"`: doesn't validate
+ */
+export type ValidationMode = "strict" | "warn" | "off";
+
+/** Kind of problem found in a request */
+export type ValidationIssueCode = "unknown_model" | "no_matching_model" | "unsupported_capability";
+
+/**
+ * A problem found in a request.
+ */
+export type ValidationIssue = {
+  /** Path to the offending field, e.g. `["prompt", "negative"]` */
+  path: (string | number)[];
+  /** Kind of problem */
+  code: ValidationIssueCode;
+  /** Human-readable description */
+  message: string;
+  /** Capability the model lacks, for `unsupported_capability` issues */
+  capability?: ModelCapability;
+};
+
+/**
+ * Result of validating a request.
+ */
+export type ValidationResult = {
+  /** Whether no issues were found */
+  valid: boolean;
+  /** Problems found, empty when the request is valid */
+  issues: ValidationIssue[];
+};
+
+/**
+ * Error thrown by `generate` when a request fails validation in `"strict"` mode.
+ */
+export class MynthValidationError extends Error {
+  /** Problems found in the request */
+  public readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Invalid generation request: ${issues.map((issue) => issue.message).join("; ")}`);
+    this.name = "MynthValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Request fields that need a model capability, with a check for whether the request uses them.
+ */
+const CAPABILITY_CHECKS: {
+  capability: ModelCapability;
+  path: (string | number)[];
+  description: string;
+  isUsed: (request: MynthSDKTypes.ImageGenerationRequest) => boolean;
+}[] = [
+  {
+    capability: "negative_prompt",
+    path: ["prompt", "negative"],
+    description: "negative prompts",
+    isUsed: ({ prompt }) => typeof prompt === "object" && !!prompt.negative,
+  },
+  {
+    capability: "inputs",
+    path: ["inputs"],
+    description: "input images",
+    isUsed: ({ inputs }) => !!inputs && inputs.length > 0,
+  },
+  {
+    capability: "custom_resolution",
+    path: ["size"],
+    description: "custom resolutions",
+    isUsed: ({ size }) =>
+      typeof size === "string" ? /^\d+x\d+$/.test(size) : size?.type === "resolution",
+  },
+  {
+    capability: "auto_size",
+    path: ["size"],
+    description: "native auto sizing",
+    isUsed: ({ size }) =>
+      typeof size === "object" && size.type === "auto" && size.prefer === "native",
+  },
+  {
+    capability: "steps",
+    path: ["steps"],
+    description: "custom step counts",
+    isUsed: ({ steps }) => steps !== undefined,
+  },
+  {
+    capability: "cfg_scale",
+    path: ["cfg_scale"],
+    description: "custom CFG scales",
+    isUsed: ({ cfg_scale }) => cfg_scale !== undefined,
+  },
+  {
+    capability: "scheduler",
+    path: ["scheduler"],
+    description: "custom schedulers",
+    isUsed: ({ scheduler }) => scheduler !== undefined,
+  },
+];
+
+/**
+ * Checks a generation request against the capabilities of its model in `AVAILABLE_MODELS`,
+ * e.g. that a negative prompt isn't sent to a model without `negative_prompt`.
+ * Requests using the `"auto"` model, or no model, are always valid.
+ *
+ * @param request - Image generation request
+ * @returns Whether the request is valid, and the issues found
+ *
+ * @example
+ * ```typescript
+ * const { valid, issues } = validateRequest({
+ *   prompt: { positive: "A cat", negative: "dogs", enhance: false },
+ *   model: "black-forest-labs/flux.1-dev",
+ * });
+ * // valid: false, issues[0].path: ["prompt", "negative"]
+ * ```
+ */
+export function validateRequest(request: MynthSDKTypes.ImageGenerationRequest): ValidationResult {
+  const modelId = request.model ?? "auto";
+  if (modelId === "auto") {
+    return { valid: true, issues: [] };
+  }
+
+  const model: AvailableModel | undefined = AVAILABLE_MODELS.find(({ id }) => id === modelId);
+  if (!model) {
+    return {
+      valid: false,
+      issues: [
+        {
+          path: ["model"],
+          code: "unknown_model",
+          message: `Unknown model "${modelId}"`,
+        },
+      ],
+    };
+  }
+
+  const issues: ValidationIssue[] = CAPABILITY_CHECKS.filter(
+    ({ capability, isUsed }) => !model.capabilities.includes(capability) && isUsed(request),
+  ).map(({ capability, path, description }) => ({
+    path,
+    code: "unsupported_capability",
+    message: `Model "${model.id}" doesn't support ${description} (${path.join(".")})`,
+    capability,
+  }));
+
+  return { valid: issues.length === 0, issues };
+}
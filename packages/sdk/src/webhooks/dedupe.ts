@@ -0,0 +1,62 @@
+/**
+ * Storage for webhook delivery keys that are being or have been processed.
+ * Implement this on top of a shared store (Redis, a database table, ...) when running
+ * more than one instance, so duplicate deliveries are detected across all of them.
+ */
+export type WebhookDedupeStore = {
+  /**
+   * Atomically records the key if it isn't recorded yet (set-if-absent).
+   * Returns `true` if this call recorded it, `false` if it was already there, so concurrent
+   * deliveries of the same event only run the handler once.
+   */
+  claim(key: string): boolean | Promise<boolean>;
+  /** Removes a claimed key after its handler failed, so a redelivery is processed */
+  release(key: string): void | Promise<void>;
+};
+
+/** Default maximum number of keys kept by the in-memory store */
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+/**
+ * In-memory dedupe store. Keys are kept per process, oldest evicted first.
+ * Suitable for single-instance servers and tests.
+ */
+export class InMemoryWebhookDedupeStore implements WebhookDedupeStore {
+  private readonly keys = new Set<string>();
+  private readonly maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  /** Whether the key is currently claimed */
+  has(key: string): boolean {
+    return this.keys.has(key);
+  }
+
+  claim(key: string): boolean {
+    if (this.keys.has(key)) return false;
+
+    this.keys.add(key);
+
+    // Sets iterate in insertion order, so the first key is the oldest
+    while (this.keys.size > this.maxEntries) {
+      const oldest = this.keys.values().next().value;
+      if (oldest === undefined) break;
+      this.keys.delete(oldest);
+    }
+
+    return true;
+  }
+
+  release(key: string): void {
+    this.keys.delete(key);
+  }
+}
+
+/**
+ * Builds the dedupe key for a webhook delivery.
+ * @internal
+ */
+export const getWebhookDedupeKey = (payload: { task: { id: string }; event: string }): string =>
+  `${payload.task.id}:${payload.event}`;
@@ -0,0 +1,742 @@
+import { describe, expect, test, vi } from "vitest";
+
+import type { MynthSDKTypes } from "../types";
+import { InMemoryWebhookDedupeStore } from "./dedupe";
+import { mynthWebhookHandler } from "./handler";
+import { createTestWebhookRequest, signWebhookPayload } from "./testing";
+import { constructEvent, MynthWebhookVerificationError, verifyWebhookSignature } from "./verify";
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const SECRET = "whsec_test_secret";
+
+function createCompletedPayload(
+  overrides: Partial<MynthSDKTypes.WebhookTaskImageCompletedPayload> = {},
+): MynthSDKTypes.WebhookTaskImageCompletedPayload {
+  return {
+    task: { id: "task-123" },
+    event: "task.image.completed",
+    result: {
+      images: [],
+      cost: { images: "0.01", total: "0.01", fee: "0" },
+      model: "black-forest-labs/flux.1-dev",
+    },
+    request: { prompt: "A cat" },
+    ...overrides,
+  };
+}
+
+async function createRequest(
+  body: string,
+  {
+    event = "task.image.completed",
+    secret = SECRET,
+    signature,
+  }: { event?: string | null; secret?: string; signature?: string | null } = {},
+): Promise<Request> {
+  const headers = new Headers();
+  const signatureHeader =
+    signature === undefined ? await signWebhookPayload(body, secret) : signature;
+
+  if (signatureHeader !== null) headers.set("X-Mynth-Signature", signatureHeader);
+  if (event !== null) headers.set("X-Mynth-Event", event);
+
+  return new Request("https://example.com/webhooks/mynth", {
+    method: "POST",
+    headers,
+    body,
+  });
+}
+
+// ============================================================================
+// constructEvent
+// ============================================================================
+
+describe("constructEvent", () => {
+  test("returns the parsed payload when the signature is valid", async () => {
+    // Arrange
+    const body = JSON.stringify(createCompletedPayload());
+    const signature = await signWebhookPayload(body, SECRET);
+
+    // Act
+    const payload = await constructEvent(body, signature, SECRET);
+
+    // Assert
+    expect(payload.event).toBe("task.image.completed");
+    expect(payload.task.id).toBe("task-123");
+  });
+
+  test("throws invalid_signature when signed with another secret", async () => {
+    // Arrange
+    const body = JSON.stringify(createCompletedPayload());
+    const signature = await signWebhookPayload(body, "another-secret");
+
+    // Act & Assert
+    await expect(constructEvent(body, signature, SECRET)).rejects.toMatchObject({
+      name: "MynthWebhookVerificationError",
+      reason: "invalid_signature",
+    });
+  });
+
+  test("throws invalid_signature when the signature header is malformed", async () => {
+    // Arrange
+    const body = JSON.stringify(createCompletedPayload());
+
+    // Act & Assert
+    await expect(constructEvent(body, "garbage", SECRET)).rejects.toBeInstanceOf(
+      MynthWebhookVerificationError,
+    );
+  });
+
+  test("throws timestamp_out_of_tolerance when the signature is older than the tolerance", async () => {
+    // Arrange
+    const body = JSON.stringify(createCompletedPayload());
+    const signature = await signWebhookPayload(body, SECRET, {
+      timestamp: Math.floor(Date.now() / 1000) - 301,
+    });
+
+    // Act & Assert
+    await expect(constructEvent(body, signature, SECRET)).rejects.toMatchObject({
+      reason: "timestamp_out_of_tolerance",
+    });
+  });
+
+  test("throws timestamp_out_of_tolerance when the signature is dated in the future", async () => {
+    // Arrange
+    const body = JSON.stringify(createCompletedPayload());
+    const signature = await signWebhookPayload(body, SECRET, {
+      timestamp: Math.floor(Date.now() / 1000) + 600,
+    });
+
+    // Act & Assert
+    await expect(constructEvent(body, signature, SECRET)).rejects.toMatchObject({
+      reason: "timestamp_out_of_tolerance",
+    });
+  });
+
+  test("accepts old signatures when tolerance is disabled", async () => {
+    // Arrange
+    const body = JSON.stringify(createCompletedPayload());
+    const signature = await signWebhookPayload(body, SECRET, { timestamp: 1_700_000_000 });
+
+    // Act
+    const payload = await constructEvent(body, signature, SECRET, { toleranceSeconds: 0 });
+
+    // Assert
+    expect(payload.task.id).toBe("task-123");
+  });
+
+  test("accepts any of several secrets during rotation", async () => {
+    // Arrange
+    const body = JSON.stringify(createCompletedPayload());
+    const signature = await signWebhookPayload(body, "new-secret");
+
+    // Act
+    const payload = await constructEvent(body, signature, ["old-secret", "new-secret"]);
+
+    // Assert
+    expect(payload.task.id).toBe("task-123");
+  });
+
+  test("throws unknown_event for events this SDK version does not know", async () => {
+    // Arrange
+    const body = JSON.stringify({ task: { id: "task-123" }, event: "task.video.completed" });
+    const signature = await signWebhookPayload(body, SECRET);
+
+    // Act & Assert
+    await expect(constructEvent(body, signature, SECRET)).rejects.toMatchObject({
+      reason: "unknown_event",
+    });
+  });
+
+  test("throws malformed_body when the signed body is not JSON", async () => {
+    // Arrange
+    const body = "not json";
+    const signature = await signWebhookPayload(body, SECRET);
+
+    // Act & Assert
+    await expect(constructEvent(body, signature, SECRET)).rejects.toMatchObject({
+      reason: "malformed_body",
+    });
+  });
+});
+
+// ============================================================================
+// Event-keyed, Catch-all and Unknown Event Handlers
+// ============================================================================
+
+describe("mynthWebhookHandler event routing", () => {
+  test("dispatches to handlers keyed by event name", async () => {
+    // Arrange
+    const completedHandler = vi.fn().mockResolvedValue(undefined);
+    const handler = mynthWebhookHandler(
+      { "task.image.completed": completedHandler },
+      { webhookSecret: SECRET },
+    );
+    const request = await createRequest(JSON.stringify(createCompletedPayload()));
+
+    // Act
+    const response = await handler(request);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(completedHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ event: "task.image.completed" }),
+      expect.objectContaining({ request }),
+    );
+  });
+
+  test("calls onEvent after the specific handler", async () => {
+    // Arrange
+    const calls: string[] = [];
+    const handler = mynthWebhookHandler(
+      {
+        imageTaskCompleted: async () => {
+          calls.push("imageTaskCompleted");
+        },
+        onEvent: async (payload) => {
+          calls.push(`onEvent:${payload.event}`);
+        },
+      },
+      { webhookSecret: SECRET },
+    );
+    const request = await createRequest(JSON.stringify(createCompletedPayload()));
+
+    // Act
+    await handler(request);
+
+    // Assert
+    expect(calls).toEqual(["imageTaskCompleted", "onEvent:task.image.completed"]);
+  });
+
+  test("passes unknown events to onUnknownEvent and responds 200", async () => {
+    // Arrange
+    const onUnknownEvent = vi.fn().mockResolvedValue(undefined);
+    const onVerificationFailed = vi.fn();
+    const handler = mynthWebhookHandler(
+      { onUnknownEvent },
+      { webhookSecret: SECRET, onVerificationFailed },
+    );
+    const body = JSON.stringify({ task: { id: "task-123" }, event: "task.video.completed" });
+    const request = await createRequest(body, { event: "task.video.completed" });
+
+    // Act
+    const response = await handler(request);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(onUnknownEvent).toHaveBeenCalledWith(
+      "task.video.completed",
+      body,
+      expect.objectContaining({ request }),
+    );
+    expect(onVerificationFailed).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// Handler Errors
+// ============================================================================
+
+describe("mynthWebhookHandler handler errors", () => {
+  test("reports handler errors and responds 500 so Mynth retries", async () => {
+    // Arrange
+    const failure = new Error("Mutation failed");
+    const onHandlerError = vi.fn();
+    const handler = mynthWebhookHandler(
+      { imageTaskCompleted: vi.fn().mockRejectedValue(failure) },
+      { webhookSecret: SECRET, onHandlerError },
+    );
+    const request = await createRequest(JSON.stringify(createCompletedPayload()));
+
+    // Act
+    const response = await handler(request);
+
+    // Assert
+    expect(response.status).toBe(500);
+    expect(onHandlerError).toHaveBeenCalledWith(failure, {
+      request,
+      payload: expect.objectContaining({ event: "task.image.completed" }),
+    });
+  });
+
+  test("responds 200 for handler errors when configured to drop", async () => {
+    // Arrange
+    const handler = mynthWebhookHandler(
+      { imageTaskCompleted: vi.fn().mockRejectedValue(new Error("Mutation failed")) },
+      { webhookSecret: SECRET, handlerErrorResponse: "drop" },
+    );
+    const request = await createRequest(JSON.stringify(createCompletedPayload()));
+
+    // Act
+    const response = await handler(request);
+
+    // Assert
+    expect(response.status).toBe(200);
+  });
+
+  test("times out slow handlers with MynthWebhookHandlerTimeoutError", async () => {
+    // Arrange
+    const onHandlerError = vi.fn();
+    const handler = mynthWebhookHandler(
+      { imageTaskCompleted: () => new Promise<void>(() => {}) },
+      { webhookSecret: SECRET, onHandlerError, handlerTimeoutMs: 10 },
+    );
+    const request = await createRequest(JSON.stringify(createCompletedPayload()));
+
+    // Act
+    const response = await handler(request);
+
+    // Assert
+    expect(response.status).toBe(500);
+    expect(onHandlerError).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "MynthWebhookHandlerTimeoutError" }),
+      expect.anything(),
+    );
+  });
+});
+
+// ============================================================================
+// verifyWebhookSignature
+// ============================================================================
+
+describe("verifyWebhookSignature", () => {
+  test("reports the index of the matching secret", async () => {
+    // Arrange
+    const body = JSON.stringify(createCompletedPayload());
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = await signWebhookPayload(body, "old-secret", { timestamp });
+
+    // Act
+    const verification = await verifyWebhookSignature(body, signature, [
+      "new-secret",
+      "old-secret",
+    ]);
+
+    // Assert
+    expect(verification).toEqual({ timestamp, secretIndex: 1 });
+  });
+
+  test("checks every v1 signature in the header", async () => {
+    // Arrange
+    const body = JSON.stringify(createCompletedPayload());
+    const timestamp = Math.floor(Date.now() / 1000);
+    const oldHeader = await signWebhookPayload(body, "old-secret", { timestamp });
+    const newHeader = await signWebhookPayload(body, "new-secret", { timestamp });
+    const [, oldSignature] = oldHeader.split(",");
+    const [, newSignature] = newHeader.split(",");
+    const header = `t=${timestamp},${oldSignature},${newSignature}`;
+
+    // Act
+    const verification = await verifyWebhookSignature(body, header, "new-secret");
+
+    // Assert
+    expect(verification.secretIndex).toBe(0);
+  });
+
+  test("throws invalid_signature when no secret matches", async () => {
+    // Arrange
+    const body = JSON.stringify(createCompletedPayload());
+    const signature = await signWebhookPayload(body, "revoked-secret");
+
+    // Act & Assert
+    await expect(
+      verifyWebhookSignature(body, signature, ["old-secret", "new-secret"]),
+    ).rejects.toMatchObject({ reason: "invalid_signature" });
+  });
+});
+
+// ============================================================================
+// mynthWebhookHandler
+// ============================================================================
+
+describe("mynthWebhookHandler", () => {
+  test("throws when no webhook secret is configured", () => {
+    // Arrange
+    vi.stubEnv("MYNTH_WEBHOOK_SECRET", "");
+
+    // Act & Assert
+    expect(() => mynthWebhookHandler({})).toThrow("MYNTH_WEBHOOK_SECRET");
+
+    vi.unstubAllEnvs();
+  });
+
+  test("dispatches completed events to imageTaskCompleted", async () => {
+    // Arrange
+    const imageTaskCompleted = vi.fn().mockResolvedValue(undefined);
+    const handler = mynthWebhookHandler({ imageTaskCompleted }, { webhookSecret: SECRET });
+    const request = await createRequest(JSON.stringify(createCompletedPayload()));
+
+    // Act
+    const response = await handler(request);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(imageTaskCompleted).toHaveBeenCalledWith(
+      expect.objectContaining({ task: { id: "task-123" } }),
+      { request, verification: { timestamp: expect.any(Number), secretIndex: 0 } },
+    );
+  });
+
+  test("dispatches failed events to imageTaskFailed", async () => {
+    // Arrange
+    const imageTaskFailed = vi.fn().mockResolvedValue(undefined);
+    const handler = mynthWebhookHandler({ imageTaskFailed }, { webhookSecret: SECRET });
+    const body = JSON.stringify({
+      task: { id: "task-456" },
+      event: "task.image.failed",
+      request: { prompt: "A dog" },
+    });
+    const request = await createRequest(body, { event: "task.image.failed" });
+
+    // Act
+    const response = await handler(request);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(imageTaskFailed).toHaveBeenCalledOnce();
+  });
+
+  test("returns 401 when the signature header is missing", async () => {
+    // Arrange
+    const imageTaskCompleted = vi.fn();
+    const handler = mynthWebhookHandler({ imageTaskCompleted }, { webhookSecret: SECRET });
+    const request = await createRequest(JSON.stringify(createCompletedPayload()), {
+      signature: null,
+    });
+
+    // Act
+    const response = await handler(request);
+
+    // Assert
+    expect(response.status).toBe(401);
+    expect(imageTaskCompleted).not.toHaveBeenCalled();
+  });
+
+  test("returns 401 when the signature does not match", async () => {
+    // Arrange
+    const imageTaskCompleted = vi.fn();
+    const handler = mynthWebhookHandler({ imageTaskCompleted }, { webhookSecret: SECRET });
+    const request = await createRequest(JSON.stringify(createCompletedPayload()), {
+      secret: "wrong-secret",
+    });
+
+    // Act
+    const response = await handler(request);
+
+    // Assert
+    expect(response.status).toBe(401);
+    expect(imageTaskCompleted).not.toHaveBeenCalled();
+  });
+
+  test("returns 400 when the event header is missing", async () => {
+    // Arrange
+    const handler = mynthWebhookHandler({}, { webhookSecret: SECRET });
+    const request = await createRequest(JSON.stringify(createCompletedPayload()), {
+      event: null,
+    });
+
+    // Act
+    const response = await handler(request);
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(await response.text()).toBe("missing_event");
+  });
+
+  test("returns 400 when the signed body is not JSON", async () => {
+    // Arrange
+    const handler = mynthWebhookHandler({}, { webhookSecret: SECRET });
+    const request = await createRequest("{ not json");
+
+    // Act
+    const response = await handler(request);
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(await response.text()).toBe("malformed_body");
+  });
+
+  test("returns 400 when the event header does not match the payload", async () => {
+    // Arrange
+    const imageTaskFailed = vi.fn();
+    const handler = mynthWebhookHandler({ imageTaskFailed }, { webhookSecret: SECRET });
+    const request = await createRequest(JSON.stringify(createCompletedPayload()), {
+      event: "task.image.failed",
+    });
+
+    // Act
+    const response = await handler(request);
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(await response.text()).toBe("event_header_mismatch");
+    expect(imageTaskFailed).not.toHaveBeenCalled();
+  });
+
+  test("acknowledges unknown events with 204 so they are not retried", async () => {
+    // Arrange
+    const handler = mynthWebhookHandler({}, { webhookSecret: SECRET });
+    const body = JSON.stringify({ task: { id: "task-123" }, event: "task.video.completed" });
+    const request = await createRequest(body, { event: "task.video.completed" });
+
+    // Act
+    const response = await handler(request);
+
+    // Assert
+    expect(response.status).toBe(204);
+  });
+
+  test("reports every rejected request through onVerificationFailed", async () => {
+    // Arrange
+    const onVerificationFailed = vi.fn();
+    const handler = mynthWebhookHandler({}, { webhookSecret: SECRET, onVerificationFailed });
+    const request = await createRequest(JSON.stringify(createCompletedPayload()), {
+      secret: "wrong-secret",
+    });
+
+    // Act
+    await handler(request);
+
+    // Assert
+    expect(onVerificationFailed).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "MynthWebhookVerificationError",
+        reason: "invalid_signature",
+      }),
+      { request },
+    );
+  });
+
+  test("returns 401 for replayed deliveries outside the tolerance window", async () => {
+    // Arrange
+    const imageTaskCompleted = vi.fn();
+    const handler = mynthWebhookHandler({ imageTaskCompleted }, { webhookSecret: SECRET });
+    const body = JSON.stringify(createCompletedPayload());
+    const request = await createRequest(body, {
+      signature: await signWebhookPayload(body, SECRET, {
+        timestamp: Math.floor(Date.now() / 1000) - 3600,
+      }),
+    });
+
+    // Act
+    const response = await handler(request);
+
+    // Assert
+    expect(response.status).toBe(401);
+    expect(imageTaskCompleted).not.toHaveBeenCalled();
+  });
+
+  test("processes each task event only once when dedupe is enabled", async () => {
+    // Arrange
+    const imageTaskCompleted = vi.fn().mockResolvedValue(undefined);
+    const handler = mynthWebhookHandler(
+      { imageTaskCompleted },
+      { webhookSecret: SECRET, dedupe: true },
+    );
+    const body = JSON.stringify(createCompletedPayload());
+
+    // Act
+    const first = await handler(await createRequest(body));
+    const second = await handler(await createRequest(body));
+
+    // Assert
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(imageTaskCompleted).toHaveBeenCalledOnce();
+  });
+
+  test("does not record a delivery whose handler throws", async () => {
+    // Arrange
+    const dedupe = new InMemoryWebhookDedupeStore();
+    const imageTaskCompleted = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Database unavailable"))
+      .mockResolvedValueOnce(undefined);
+    const handler = mynthWebhookHandler({ imageTaskCompleted }, { webhookSecret: SECRET, dedupe });
+    const body = JSON.stringify(createCompletedPayload());
+
+    // Act
+    await expect(handler(await createRequest(body))).rejects.toThrow("Database unavailable");
+    const retry = await handler(await createRequest(body));
+
+    // Assert
+    expect(retry.status).toBe(200);
+    expect(imageTaskCompleted).toHaveBeenCalledTimes(2);
+    expect(dedupe.has("task-123:task.image.completed")).toBe(true);
+  });
+
+  test("runs the handler once for concurrent deliveries of the same event", async () => {
+    // Arrange
+    let finishHandler = () => {};
+    const imageTaskCompleted = vi.fn(
+      () => new Promise<void>((resolve) => (finishHandler = resolve)),
+    );
+    const handler = mynthWebhookHandler(
+      { imageTaskCompleted },
+      { webhookSecret: SECRET, dedupe: true },
+    );
+    const body = JSON.stringify(createCompletedPayload());
+    const [firstRequest, secondRequest] = await Promise.all([
+      createRequest(body),
+      createRequest(body),
+    ]);
+
+    // Act
+    const firstPromise = handler(firstRequest);
+    const second = await handler(secondRequest);
+    finishHandler();
+    const first = await firstPromise;
+
+    // Assert
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(imageTaskCompleted).toHaveBeenCalledOnce();
+  });
+
+  test("releases the claim when the handler fails with a 500 response", async () => {
+    // Arrange
+    const dedupe = new InMemoryWebhookDedupeStore();
+    const handler = mynthWebhookHandler(
+      { imageTaskCompleted: vi.fn().mockRejectedValue(new Error("Database unavailable")) },
+      { webhookSecret: SECRET, dedupe, handlerErrorResponse: "retry" },
+    );
+
+    // Act
+    const response = await handler(await createRequest(JSON.stringify(createCompletedPayload())));
+
+    // Assert
+    expect(response.status).toBe(500);
+    expect(dedupe.has("task-123:task.image.completed")).toBe(false);
+  });
+
+  test("keeps the claim of a timed out handler until it settles, releasing it if it fails", async () => {
+    // Arrange
+    const dedupe = new InMemoryWebhookDedupeStore();
+    let failHandler = (_error: Error) => {};
+    const imageTaskCompleted = vi
+      .fn()
+      .mockImplementationOnce(() => new Promise<void>((_, reject) => (failHandler = reject)))
+      .mockResolvedValueOnce(undefined);
+    const handler = mynthWebhookHandler(
+      { imageTaskCompleted },
+      { webhookSecret: SECRET, dedupe, handlerTimeoutMs: 10, handlerErrorResponse: "retry" },
+    );
+    const body = JSON.stringify(createCompletedPayload());
+
+    // Act
+    const timedOut = await handler(await createRequest(body));
+    const redeliveredWhileRunning = await handler(await createRequest(body));
+    failHandler(new Error("Database unavailable"));
+    await vi.waitFor(() => expect(dedupe.has("task-123:task.image.completed")).toBe(false));
+    const redeliveredAfterFailure = await handler(await createRequest(body));
+
+    // Assert
+    expect(timedOut.status).toBe(500);
+    expect(redeliveredWhileRunning.status).toBe(200);
+    expect(redeliveredAfterFailure.status).toBe(200);
+    expect(imageTaskCompleted).toHaveBeenCalledTimes(2);
+    expect(dedupe.has("task-123:task.image.completed")).toBe(true);
+  });
+});
+
+// ============================================================================
+// Test Harness
+// ============================================================================
+
+describe("signWebhookPayload", () => {
+  test("produces the t={timestamp},v1={hmac} header format", async () => {
+    // Arrange
+    const body = JSON.stringify(createCompletedPayload());
+
+    // Act
+    const signature = await signWebhookPayload(body, SECRET, { timestamp: 1_700_000_000 });
+
+    // Assert
+    expect(signature).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+  });
+
+  test("signs objects as their JSON serialization", async () => {
+    // Arrange
+    const payload = createCompletedPayload();
+
+    // Act
+    const fromObject = await signWebhookPayload(payload, SECRET, { timestamp: 1_700_000_000 });
+    const fromString = await signWebhookPayload(JSON.stringify(payload), SECRET, {
+      timestamp: 1_700_000_000,
+    });
+
+    // Assert
+    expect(fromObject).toBe(fromString);
+  });
+});
+
+describe("createTestWebhookRequest", () => {
+  test("builds a request the webhook handler accepts", async () => {
+    // Arrange
+    const imageTaskCompleted = vi.fn().mockResolvedValue(undefined);
+    const handler = mynthWebhookHandler({ imageTaskCompleted }, { webhookSecret: SECRET });
+
+    // Act
+    const request = await createTestWebhookRequest(
+      "task.image.completed",
+      createCompletedPayload(),
+      { secret: SECRET },
+    );
+    const response = await handler(request);
+
+    // Assert
+    expect(request.headers.get("X-Mynth-Event")).toBe("task.image.completed");
+    expect(response.status).toBe(200);
+    expect(imageTaskCompleted).toHaveBeenCalledOnce();
+  });
+
+  test("throws when no secret is available", async () => {
+    // Arrange
+    vi.stubEnv("MYNTH_WEBHOOK_SECRET", "");
+
+    // Act & Assert
+    await expect(
+      createTestWebhookRequest("task.image.completed", createCompletedPayload()),
+    ).rejects.toThrow("MYNTH_WEBHOOK_SECRET");
+
+    vi.unstubAllEnvs();
+  });
+});
+
+// ============================================================================
+// InMemoryWebhookDedupeStore
+// ============================================================================
+
+describe("InMemoryWebhookDedupeStore", () => {
+  test("evicts the oldest keys beyond maxEntries", () => {
+    // Arrange
+    const store = new InMemoryWebhookDedupeStore({ maxEntries: 2 });
+
+    // Act
+    store.claim("a");
+    store.claim("b");
+    store.claim("c");
+
+    // Assert
+    expect(store.has("a")).toBe(false);
+    expect(store.has("b")).toBe(true);
+    expect(store.has("c")).toBe(true);
+  });
+
+  test("claims each key once until it's released", () => {
+    // Arrange
+    const store = new InMemoryWebhookDedupeStore();
+
+    // Act
+    const first = store.claim("a");
+    const duplicate = store.claim("a");
+    store.release("a");
+    const afterRelease = store.claim("a");
+
+    // Assert
+    expect([first, duplicate, afterRelease]).toEqual([true, false, true]);
+  });
+});
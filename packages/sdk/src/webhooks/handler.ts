@@ -0,0 +1,377 @@
+import type { MynthSDKTypes } from "../types";
+import type { WebhookDedupeStore } from "./dedupe";
+import { getWebhookDedupeKey, InMemoryWebhookDedupeStore } from "./dedupe";
+import {
+  tryToGetWebhookSecretFromEnv,
+  WEBHOOK_HEADERS_EVENT,
+  WEBHOOK_HEADERS_SIGNATURE,
+  WEBHOOK_SECRET_ENV_VAR,
+} from "./utils";
+import type {
+  UnknownWebhookPayload,
+  WebhookVerification,
+  WebhookVerificationFailureReason,
+} from "./verify";
+import {
+  isKnownWebhookPayload,
+  MynthWebhookVerificationError,
+  parseWebhookBody,
+  verifyWebhookSignature,
+} from "./verify";
+
+/**
+ * Response status for each verification failure. Signature problems are 401 so they stand out
+ * as potential attacks, malformed requests are 400, and unknown events are acknowledged with
+ * 204 so Mynth does not retry events this SDK version cannot handle yet.
+ */
+const FAILURE_RESPONSE_STATUS: Record<WebhookVerificationFailureReason, number> = {
+  missing_signature: 401,
+  invalid_signature: 401,
+  timestamp_out_of_tolerance: 401,
+  missing_event: 400,
+  malformed_body: 400,
+  event_header_mismatch: 400,
+  unknown_event: 204,
+};
+
+/**
+ * Error thrown when a webhook event handler does not settle within `handlerTimeoutMs`.
+ */
+export class MynthWebhookHandlerTimeoutError extends Error {
+  constructor(event: string, timeoutMs: number) {
+    super(`Webhook handler for ${event} did not finish within ${timeoutMs}ms`);
+    this.name = "MynthWebhookHandlerTimeoutError";
+  }
+}
+
+/**
+ * Context passed to webhook event handlers by `mynthWebhookHandler`.
+ */
+export type WebhookHandlerContext = {
+  /** The incoming webhook request */
+  request: Request;
+  /** Which secret verified the delivery and when it was signed */
+  verification: WebhookVerification;
+};
+
+/**
+ * Handlers keyed by event name. A key is derived for every variant of
+ * `MynthSDKTypes.WebhookPayload`, typed with that variant's payload.
+ */
+type WebhookEventNameHandlers<ContextT> = {
+  [E in MynthSDKTypes.WebhookEvent]?: (
+    payload: MynthSDKTypes.WebhookEventPayloadMap[E],
+    context: ContextT,
+  ) => Promise<void>;
+};
+
+/**
+ * Event handlers for Mynth webhook events.
+ * Handlers can be registered by name (`imageTaskCompleted`) or by event (`"task.image.completed"`).
+ *
+ * @template ContextT - Context passed as the second argument to every handler
+ */
+export type WebhookEventHandlers<ContextT = WebhookHandlerContext> =
+  WebhookEventNameHandlers<ContextT> & {
+    /** Called when an image generation task completes successfully */
+    imageTaskCompleted?: (
+      payload: MynthSDKTypes.WebhookTaskImageCompletedPayload,
+      context: ContextT,
+    ) => Promise<void>;
+    /** Called when an image generation task fails */
+    imageTaskFailed?: (
+      payload: MynthSDKTypes.WebhookTaskImageFailedPayload,
+      context: ContextT,
+    ) => Promise<void>;
+    /** Called for every known event, after its specific handlers */
+    onEvent?: (payload: MynthSDKTypes.WebhookPayload, context: ContextT) => Promise<void>;
+    /**
+     * Called for verified events this SDK version does not know yet. When set, unknown events
+     * are acknowledged with 200 instead of being reported through `onVerificationFailed`.
+     */
+    onUnknownEvent?: (rawEvent: string, rawBody: string, context: ContextT) => Promise<void>;
+  };
+
+/**
+ * Options for configuring a webhook handler.
+ */
+export type MynthWebhookHandlerOptions = {
+  /**
+   * Webhook secret for signature verification. Defaults to MYNTH_WEBHOOK_SECRET env var.
+   * Pass several secrets during rotation; a delivery is accepted if any of them matches.
+   */
+  webhookSecret?: string | string[];
+  /**
+   * Maximum allowed age of the signature timestamp, in seconds. Older (or future-dated)
+   * deliveries are rejected as replays. Set to `0` to disable the check. Default: 300.
+   */
+  toleranceSeconds?: number;
+  /**
+   * Skip deliveries that were already processed, keyed by task id and event.
+   * Pass `true` for an in-memory store, or your own store to share state across instances.
+   * A delivery is claimed before its handler runs, so concurrent duplicates are skipped, and
+   * released if the handler fails, so failed deliveries can be retried.
+   */
+  dedupe?: boolean | WebhookDedupeStore;
+  /**
+   * Called when a request is rejected before reaching an event handler.
+   * Use `error.reason` to tell attacks (`invalid_signature`) apart from SDK/API drift (`unknown_event`).
+   */
+  onVerificationFailed?: (
+    error: MynthWebhookVerificationError,
+    context: { request: Request },
+  ) => void | Promise<void>;
+  /**
+   * Called when an event handler throws or times out. Setting this (or `handlerErrorResponse`)
+   * catches handler errors instead of letting them escape to the runtime.
+   */
+  onHandlerError?: (
+    error: Error,
+    context: { request: Request; payload: MynthSDKTypes.WebhookPayload | UnknownWebhookPayload },
+  ) => void | Promise<void>;
+  /**
+   * Response for a caught handler error: `"retry"` responds 500 so Mynth redelivers the event,
+   * `"drop"` responds 200 so it does not. Default: `"retry"`.
+   */
+  handlerErrorResponse?: "retry" | "drop";
+  /**
+   * Maximum time an event handler may run before the delivery is answered with a
+   * `MynthWebhookHandlerTimeoutError`. The handler itself is not cancelled, and with `dedupe`
+   * its delivery stays claimed until it settles, so redeliveries don't run alongside it.
+   */
+  handlerTimeoutMs?: number;
+};
+
+/**
+ * Creates a webhook request handler that passes a caller-built context to event handlers.
+ * Used by framework adapters (e.g. Convex) to share verification and dispatch logic.
+ * @internal
+ */
+export const createWebhookRequestHandler = <ContextT>(
+  eventHandlers: WebhookEventHandlers<ContextT>,
+  options?: MynthWebhookHandlerOptions,
+) => {
+  const webhookSecret = options?.webhookSecret ?? tryToGetWebhookSecretFromEnv();
+
+  if (!webhookSecret || webhookSecret.length === 0) {
+    throw new Error(
+      `${WEBHOOK_SECRET_ENV_VAR} is required. Either pass it as an option or set the environment variable.`,
+    );
+  }
+
+  const dedupeStore =
+    options?.dedupe === true ? new InMemoryWebhookDedupeStore() : options?.dedupe || undefined;
+
+  const catchHandlerErrors =
+    options?.onHandlerError !== undefined || options?.handlerErrorResponse !== undefined;
+
+  return async (
+    request: Request,
+    createContext: (verification: WebhookVerification) => ContextT,
+  ): Promise<Response> => {
+    let payload: UnknownWebhookPayload | MynthSDKTypes.WebhookPayload;
+    let rawBody: string;
+    let verification: WebhookVerification;
+    try {
+      ({ payload, rawBody, verification } = await verifyWebhookRequest(
+        request,
+        webhookSecret,
+        options?.toleranceSeconds,
+      ));
+
+      if (!isKnownWebhookPayload(payload) && !eventHandlers.onUnknownEvent) {
+        throw new MynthWebhookVerificationError(
+          "unknown_event",
+          `Unknown webhook event "${payload.event}"`,
+        );
+      }
+    } catch (error) {
+      if (!(error instanceof MynthWebhookVerificationError)) {
+        throw error;
+      }
+
+      await options?.onVerificationFailed?.(error, { request });
+
+      const status = FAILURE_RESPONSE_STATUS[error.reason];
+      return new Response(status === 204 ? null : error.reason, { status });
+    }
+
+    // Only known payloads are guaranteed to carry a task id to dedupe on
+    const dedupeKey = isKnownWebhookPayload(payload) ? getWebhookDedupeKey(payload) : undefined;
+
+    const context = createContext(verification);
+
+    if (dedupeStore && dedupeKey && !(await dedupeStore.claim(dedupeKey))) {
+      return new Response(undefined, { status: 200 });
+    }
+
+    // Async, so handlers that throw synchronously reject like the others
+    const handling = (async () =>
+      isKnownWebhookPayload(payload)
+        ? dispatchEvent(eventHandlers, payload, context)
+        : eventHandlers.onUnknownEvent!(payload.event, rawBody, context))();
+
+    let processed = false;
+    let timedOut = false;
+    try {
+      await withTimeout(
+        handling,
+        options?.handlerTimeoutMs,
+        (timeoutMs) => new MynthWebhookHandlerTimeoutError(payload.event, timeoutMs),
+      );
+      processed = true;
+    } catch (error) {
+      timedOut = error instanceof MynthWebhookHandlerTimeoutError;
+
+      if (!catchHandlerErrors) {
+        throw error;
+      }
+
+      await options?.onHandlerError?.(error instanceof Error ? error : new Error(String(error)), {
+        request,
+        payload,
+      });
+
+      if (options?.handlerErrorResponse === "drop") {
+        // Acknowledged, so Mynth won't redeliver it
+        processed = true;
+        return new Response(undefined, { status: 200 });
+      }
+
+      return new Response("handler_error", { status: 500 });
+    } finally {
+      if (dedupeStore && dedupeKey && !processed) {
+        if (timedOut) {
+          // The handler is still running, so a redelivery must not run alongside it: the claim
+          // is kept until the handler settles, and only released if it fails
+          handling.catch(() => dedupeStore.release(dedupeKey)).catch(() => {});
+        } else {
+          await dedupeStore.release(dedupeKey);
+        }
+      }
+    }
+
+    return new Response(undefined, { status: 200 });
+  };
+};
+
+/**
+ * Calls the handlers matching the payload: the named handler, the event-keyed handler,
+ * then the catch-all.
+ */
+async function dispatchEvent<ContextT>(
+  eventHandlers: WebhookEventHandlers<ContextT>,
+  payload: MynthSDKTypes.WebhookPayload,
+  context: ContextT,
+): Promise<void> {
+  switch (payload.event) {
+    case "task.image.completed":
+      await eventHandlers.imageTaskCompleted?.(payload, context);
+      break;
+    case "task.image.failed":
+      await eventHandlers.imageTaskFailed?.(payload, context);
+      break;
+  }
+
+  // The mapped type pairs each event with its own payload, which TS cannot correlate here
+  const eventHandler = eventHandlers[payload.event] as
+    | ((payload: MynthSDKTypes.WebhookPayload, context: ContextT) => Promise<void>)
+    | undefined;
+
+  await eventHandler?.(payload, context);
+  await eventHandlers.onEvent?.(payload, context);
+}
+
+/**
+ * Rejects with `createError(timeoutMs)` if the promise does not settle within `timeoutMs`.
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number | undefined,
+  createError: (timeoutMs: number) => Error,
+): Promise<T> {
+  if (timeoutMs === undefined) {
+    return promise;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(createError(timeoutMs)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Verifies the headers, signature and body of a webhook request.
+ * @throws {MynthWebhookVerificationError} If any check fails
+ */
+async function verifyWebhookRequest(
+  request: Request,
+  webhookSecret: string | string[],
+  toleranceSeconds: number | undefined,
+): Promise<{ payload: UnknownWebhookPayload; rawBody: string; verification: WebhookVerification }> {
+  const signature = request.headers.get(WEBHOOK_HEADERS_SIGNATURE);
+
+  if (!signature) {
+    throw new MynthWebhookVerificationError(
+      "missing_signature",
+      `Missing ${WEBHOOK_HEADERS_SIGNATURE} header`,
+    );
+  }
+
+  const event = request.headers.get(WEBHOOK_HEADERS_EVENT);
+
+  if (!event) {
+    throw new MynthWebhookVerificationError(
+      "missing_event",
+      `Missing ${WEBHOOK_HEADERS_EVENT} header`,
+    );
+  }
+
+  const rawBody = await request.text();
+  const verification = await verifyWebhookSignature(rawBody, signature, webhookSecret, {
+    toleranceSeconds,
+  });
+  const payload = parseWebhookBody(rawBody);
+
+  if (payload.event !== event) {
+    throw new MynthWebhookVerificationError(
+      "event_header_mismatch",
+      `${WEBHOOK_HEADERS_EVENT} header "${event}" does not match payload event "${payload.event}"`,
+    );
+  }
+
+  return { payload, rawBody, verification };
+}
+
+/**
+ * Creates a framework-agnostic webhook handler built on the Web Request/Response API.
+ * Works with any runtime that speaks `Request` and `Response`: Hono, Next.js route handlers,
+ * Cloudflare Workers, Bun.serve, Deno and more.
+ *
+ * @param eventHandlers - Handlers for different webhook events
+ * @param options - Configuration options
+ * @returns A function that takes a `Request` and resolves to a `Response`
+ *
+ * @example
+ * ```typescript
+ * // app/api/webhooks/mynth/route.ts (Next.js)
+ * import { mynthWebhookHandler } from "@mynthio/sdk/webhooks";
+ *
+ * export const POST = mynthWebhookHandler({
+ *   imageTaskCompleted: async (payload) => {
+ *     await db.images.save(payload.task.id, payload.result.images);
+ *   },
+ * });
+ * ```
+ */
+export const mynthWebhookHandler = (
+  eventHandlers: WebhookEventHandlers,
+  options?: MynthWebhookHandlerOptions,
+) => {
+  const handleRequest = createWebhookRequestHandler(eventHandlers, options);
+
+  return (request: Request): Promise<Response> =>
+    handleRequest(request, (verification) => ({ request, verification }));
+};
@@ -0,0 +1,22 @@
+export { InMemoryWebhookDedupeStore } from "./dedupe";
+export type { WebhookDedupeStore } from "./dedupe";
+export { MynthWebhookHandlerTimeoutError, mynthWebhookHandler } from "./handler";
+export type {
+  MynthWebhookHandlerOptions,
+  WebhookEventHandlers,
+  WebhookHandlerContext,
+} from "./handler";
+export { createTestWebhookRequest, signWebhookPayload } from "./testing";
+export type { CreateTestWebhookRequestOptions, SignWebhookPayloadOptions } from "./testing";
+export {
+  constructEvent,
+  DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  MynthWebhookVerificationError,
+  verifyWebhookSignature,
+} from "./verify";
+export type {
+  ConstructEventOptions,
+  UnknownWebhookPayload,
+  WebhookVerification,
+  WebhookVerificationFailureReason,
+} from "./verify";
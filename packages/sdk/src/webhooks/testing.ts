@@ -0,0 +1,97 @@
+import type { MynthSDKTypes } from "../types";
+import {
+  computeSignature,
+  tryToGetWebhookSecretFromEnv,
+  WEBHOOK_HEADERS_EVENT,
+  WEBHOOK_HEADERS_SIGNATURE,
+  WEBHOOK_SECRET_ENV_VAR,
+} from "./utils";
+
+/**
+ * Options for signing a webhook payload.
+ */
+export type SignWebhookPayloadOptions = {
+  /** Signature timestamp, in seconds since the Unix epoch. Defaults to now. */
+  timestamp?: number;
+};
+
+/**
+ * Options for building a signed test webhook request.
+ */
+export type CreateTestWebhookRequestOptions = SignWebhookPayloadOptions & {
+  /** Secret to sign with. Defaults to MYNTH_WEBHOOK_SECRET env var. */
+  secret?: string;
+  /** Request URL. Defaults to `http://localhost/webhooks/mynth`. */
+  url?: string;
+};
+
+/**
+ * Signs a webhook payload the same way Mynth does.
+ *
+ * @param payload - The payload object, or the exact body string to sign
+ * @param secret - The webhook secret
+ * @param options - Signing options
+ * @returns The X-Mynth-Signature header value: `t={timestamp},v1={signature}`
+ *
+ * @example
+ * ```typescript
+ * const body = JSON.stringify(payload);
+ * const signature = await signWebhookPayload(body, "whsec_test");
+ * ```
+ */
+export async function signWebhookPayload(
+  payload: object | string,
+  secret: string,
+  options: SignWebhookPayloadOptions = {},
+): Promise<string> {
+  const body = typeof payload === "string" ? payload : JSON.stringify(payload);
+  const timestamp = String(options.timestamp ?? Math.floor(Date.now() / 1000));
+  const signature = await computeSignature(timestamp, body, secret);
+
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Creates a fully signed webhook `Request`, for exercising webhook handlers end to end
+ * without the live service.
+ *
+ * @param event - Value for the X-Mynth-Event header
+ * @param payload - The payload object, or the exact body string to send
+ * @param options - Request options
+ * @returns A POST request with X-Mynth-Event and X-Mynth-Signature headers set
+ * @throws {Error} If no secret is provided and MYNTH_WEBHOOK_SECRET is not set
+ *
+ * @example
+ * ```typescript
+ * const request = await createTestWebhookRequest("task.image.completed", payload, {
+ *   secret: "whsec_test",
+ * });
+ * const response = await handler(request);
+ * ```
+ */
+export async function createTestWebhookRequest(
+  event: MynthSDKTypes.WebhookPayload["event"] | (string & {}),
+  payload: object | string,
+  options: CreateTestWebhookRequestOptions = {},
+): Promise<Request> {
+  const secret = options.secret ?? tryToGetWebhookSecretFromEnv();
+
+  if (!secret) {
+    throw new Error(
+      `${WEBHOOK_SECRET_ENV_VAR} is required. Either pass it as an option or set the environment variable.`,
+    );
+  }
+
+  const body = typeof payload === "string" ? payload : JSON.stringify(payload);
+  const signature = await signWebhookPayload(body, secret, { timestamp: options.timestamp });
+
+  return new Request(options.url ?? "http://localhost/webhooks/mynth", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [WEBHOOK_HEADERS_EVENT]: event,
+      [WEBHOOK_HEADERS_SIGNATURE]: signature,
+    },
+    body,
+  });
+}
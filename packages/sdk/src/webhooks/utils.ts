@@ -1,5 +1,9 @@
 /** Environment variable name for the webhook secret */
-const WEBHOOK_SECRET_ENV_VAR = "MYNTH_WEBHOOK_SECRET";
+export const WEBHOOK_SECRET_ENV_VAR = "MYNTH_WEBHOOK_SECRET";
+
+// Webhook header constants
+export const WEBHOOK_HEADERS_EVENT = "X-Mynth-Event";
+export const WEBHOOK_HEADERS_SIGNATURE = "X-Mynth-Signature";
 
 /**
  * Attempts to read the webhook secret from environment variables.
@@ -13,72 +17,89 @@ export const tryToGetWebhookSecretFromEnv = (): string | undefined => {
 };
 
 /**
- * Parse the signature header format: `t={timestamp},v1={signature}`
+ * Parse the signature header format: `t={timestamp},v1={signature}[,v1={signature}...]`
+ * Every `v1` value is kept so deliveries signed with several secrets can be verified.
  * @internal
  */
-function parseSignatureHeader(signatureHeader: string): {
+export function parseSignatureHeader(signatureHeader: string): {
   timestamp: string;
-  signature: string;
+  signatures: string[];
 } | null {
   const parts = signatureHeader.split(",");
   let timestamp: string | undefined;
-  let signature: string | undefined;
+  const signatures: string[] = [];
 
   for (const part of parts) {
-    const [key, value] = part.split("=");
+    const [key, value] = part.trim().split("=");
     if (key === "t") {
       timestamp = value;
-    } else if (key === "v1") {
-      signature = value;
+    } else if (key === "v1" && value) {
+      signatures.push(value);
     }
   }
 
-  if (!timestamp || !signature) {
+  if (!timestamp || signatures.length === 0) {
     return null;
   }
 
-  return { timestamp, signature };
+  return { timestamp, signatures };
+}
+
+/**
+ * Computes the hex HMAC-SHA256 signature of `{timestamp}.{body}`.
+ * @internal
+ */
+export async function computeSignature(
+  timestamp: string,
+  body: string,
+  secret: string,
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+
+  const signed = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return toHex(new Uint8Array(signed));
 }
 
 /**
- * Verifies the HMAC-SHA256 signature of a webhook payload.
+ * Verifies the HMAC-SHA256 signature of a webhook payload against one or more secrets.
  * Uses timing-safe comparison to prevent timing attacks.
  *
  * @param body - The raw request body
  * @param signatureHeader - The X-Mynth-Signature header value
- * @param secret - The webhook secret
- * @returns True if the signature is valid
+ * @param secrets - The webhook secrets, in order of preference
+ * @returns The index of the first secret matching any `v1` signature, or null if none match
  * @internal
  */
 export async function verifySignature(
   body: string,
   signatureHeader: string,
-  secret: string,
-): Promise<boolean> {
-  // Parse the signature header to extract timestamp and signature
+  secrets: readonly string[],
+): Promise<number | null> {
+  // Parse the signature header to extract timestamp and signatures
   const parsed = parseSignatureHeader(signatureHeader);
   if (!parsed) {
-    return false;
+    return null;
   }
 
-  const { timestamp, signature } = parsed;
+  const { timestamp, signatures } = parsed;
 
-  // Recreate the signed message: `{timestamp}.{body}` (same as signing)
-  const message = `${timestamp}.${body}`;
+  for (const [index, secret] of secrets.entries()) {
+    // Recreate the signed message: `{timestamp}.{body}` (same as signing)
+    const expected = await computeSignature(timestamp, body, secret);
 
-  const encoder = new TextEncoder();
-  const key = await crypto.subtle.importKey(
-    "raw",
-    encoder.encode(secret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign"],
-  );
-
-  const signed = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
-  const expected = toHex(new Uint8Array(signed));
+    if (signatures.some((signature) => timingSafeEqual(expected, signature))) {
+      return index;
+    }
+  }
 
-  return timingSafeEqual(expected, signature);
+  return null;
 }
 
 /** Convert bytes to hex string */
@@ -0,0 +1,232 @@
+import type { MynthSDKTypes } from "../types";
+import { parseSignatureHeader, verifySignature } from "./utils";
+
+/** Default maximum age of a webhook signature timestamp, in seconds (5 minutes) */
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Webhook events this version of the SDK knows how to handle.
+ * Typed as a record so adding a payload variant to `MynthSDKTypes.WebhookPayload` fails to
+ * compile until the event is listed here too.
+ */
+const KNOWN_WEBHOOK_EVENTS: Record<MynthSDKTypes.WebhookEvent, true> = {
+  "task.image.completed": true,
+  "task.image.failed": true,
+};
+
+/**
+ * A parsed webhook body whose event may not be known to this version of the SDK.
+ */
+export type UnknownWebhookPayload = {
+  event: string;
+  [key: string]: unknown;
+};
+
+/**
+ * Reason a webhook request failed verification.
+ * - `missing_signature`: The X-Mynth-Signature header is absent
+ * - `missing_event`: The X-Mynth-Event header is absent
+ * - `invalid_signature`: The signature header is malformed or does not match the body
+ * - `timestamp_out_of_tolerance`: The signature timestamp is too old or too far in the future
+ * - `malformed_body`: The body is signed correctly but is not a JSON webhook payload
+ * - `unknown_event`: The payload event is not known to this version of the SDK
+ * - `event_header_mismatch`: The X-Mynth-Event header does not match the payload event
+ */
+export type WebhookVerificationFailureReason =
+  | "missing_signature"
+  | "missing_event"
+  | "invalid_signature"
+  | "timestamp_out_of_tolerance"
+  | "malformed_body"
+  | "unknown_event"
+  | "event_header_mismatch";
+
+/**
+ * Error thrown when a webhook payload cannot be verified or parsed.
+ */
+export class MynthWebhookVerificationError extends Error {
+  /** Why verification failed */
+  public readonly reason: WebhookVerificationFailureReason;
+
+  constructor(reason: WebhookVerificationFailureReason, message: string, cause?: Error) {
+    super(message);
+    this.name = "MynthWebhookVerificationError";
+    this.reason = reason;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Options for webhook signature verification.
+ */
+export type ConstructEventOptions = {
+  /**
+   * Maximum allowed difference between the signature timestamp and the current time, in seconds.
+   * Protects against replayed deliveries. Set to `0` to disable the check. Default: 300.
+   */
+  toleranceSeconds?: number;
+};
+
+/**
+ * Details of a successfully verified webhook signature.
+ */
+export type WebhookVerification = {
+  /** Signature timestamp, in seconds since the Unix epoch */
+  timestamp: number;
+  /**
+   * Index of the secret that matched. Always `0` for a single secret; during rotation,
+   * monitor this to see when deliveries stop being signed with the old secret.
+   */
+  secretIndex: number;
+};
+
+/**
+ * Verifies a webhook signature without parsing the body.
+ *
+ * @param rawBody - The raw request body, exactly as received
+ * @param signatureHeader - The X-Mynth-Signature header value
+ * @param secret - The webhook secret, or several secrets during rotation
+ * @param options - Verification options
+ * @returns Which secret matched and when the delivery was signed
+ * @throws {MynthWebhookVerificationError} If no secret matches or the signature is stale
+ */
+export async function verifyWebhookSignature(
+  rawBody: string,
+  signatureHeader: string,
+  secret: string | readonly string[],
+  options: ConstructEventOptions = {},
+): Promise<WebhookVerification> {
+  const secrets = typeof secret === "string" ? [secret] : secret;
+  const secretIndex = await verifySignature(rawBody, signatureHeader, secrets);
+
+  if (secretIndex === null) {
+    throw new MynthWebhookVerificationError(
+      "invalid_signature",
+      "Webhook signature verification failed",
+    );
+  }
+
+  const timestamp = assertTimestampWithinTolerance(
+    // A valid signature guarantees a parseable header
+    parseSignatureHeader(signatureHeader)!.timestamp,
+    options.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  );
+
+  return { timestamp, secretIndex };
+}
+
+/**
+ * Verifies a webhook signature and parses the payload.
+ *
+ * @param rawBody - The raw request body, exactly as received
+ * @param signatureHeader - The X-Mynth-Signature header value
+ * @param secret - The webhook secret, or several secrets during rotation
+ * @param options - Verification options
+ * @returns The typed webhook payload
+ * @throws {MynthWebhookVerificationError} If the signature is invalid or stale, or the body is not
+ * a known webhook payload
+ *
+ * @example
+ * ```typescript
+ * const payload = await constructEvent(
+ *   await request.text(),
+ *   request.headers.get("X-Mynth-Signature") ?? "",
+ *   process.env.MYNTH_WEBHOOK_SECRET!,
+ * );
+ * ```
+ */
+export async function constructEvent(
+  rawBody: string,
+  signatureHeader: string,
+  secret: string | readonly string[],
+  options: ConstructEventOptions = {},
+): Promise<MynthSDKTypes.WebhookPayload> {
+  await verifyWebhookSignature(rawBody, signatureHeader, secret, options);
+
+  const payload = parseWebhookBody(rawBody);
+
+  if (!isKnownWebhookPayload(payload)) {
+    throw new MynthWebhookVerificationError(
+      "unknown_event",
+      `Unknown webhook event "${payload.event}"`,
+    );
+  }
+
+  return payload;
+}
+
+/**
+ * Whether the payload's event is one this version of the SDK knows how to handle.
+ * @internal
+ */
+export function isKnownWebhookPayload(
+  payload: UnknownWebhookPayload | MynthSDKTypes.WebhookPayload,
+): payload is MynthSDKTypes.WebhookPayload {
+  return Object.hasOwn(KNOWN_WEBHOOK_EVENTS, payload.event);
+}
+
+/**
+ * Parses a verified webhook body, without checking whether the event is known.
+ * @internal
+ */
+export function parseWebhookBody(rawBody: string): UnknownWebhookPayload {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch (error) {
+    throw new MynthWebhookVerificationError(
+      "malformed_body",
+      "Webhook body is not valid JSON",
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+
+  if (
+    typeof payload !== "object" ||
+    payload === null ||
+    !("event" in payload) ||
+    typeof payload.event !== "string"
+  ) {
+    throw new MynthWebhookVerificationError(
+      "malformed_body",
+      "Webhook body is missing the event field",
+    );
+  }
+
+  return payload as UnknownWebhookPayload;
+}
+
+/**
+ * Rejects signature timestamps outside the tolerance window, in either direction.
+ * Returns the parsed timestamp.
+ */
+function assertTimestampWithinTolerance(timestamp: string, toleranceSeconds: number): number {
+  const signedAt = Number(timestamp);
+
+  if (!Number.isFinite(signedAt)) {
+    throw new MynthWebhookVerificationError(
+      "invalid_signature",
+      "Webhook signature timestamp is not a number",
+    );
+  }
+
+  if (toleranceSeconds <= 0) return signedAt;
+
+  const drift = Math.floor(Date.now() / 1000) - signedAt;
+
+  if (drift > toleranceSeconds) {
+    throw new MynthWebhookVerificationError(
+      "timestamp_out_of_tolerance",
+      `Webhook signature timestamp is ${drift}s old, exceeding the ${toleranceSeconds}s tolerance`,
+    );
+  }
+
+  if (drift < -toleranceSeconds) {
+    throw new MynthWebhookVerificationError(
+      "timestamp_out_of_tolerance",
+      `Webhook signature timestamp is ${-drift}s in the future, exceeding the ${toleranceSeconds}s tolerance`,
+    );
+  }
+
+  return signedAt;
+}